@@ -0,0 +1,43 @@
+-- Storage backend tables for XMLRPC_PING_DB (see storage() in src/index.ts).
+-- Apply with `pnpm d1:migrate` (local) or `pnpm d1:migrate:remote`; copy existing KV data with POST /storage/migrate.
+
+-- Per-site rate-limit locks; a lock is free once expires_at (ms) has passed
+CREATE TABLE IF NOT EXISTS locks (
+	name TEXT PRIMARY KEY, -- site id
+	acquired_at INTEGER NOT NULL,
+	expires_at INTEGER NOT NULL
+);
+
+-- Last deploy id / commit sha handled per site
+CREATE TABLE IF NOT EXISTS last_seen (
+	site_id TEXT PRIMARY KEY,
+	deploy_id TEXT NOT NULL,
+	seen_at INTEGER NOT NULL
+);
+
+-- The shared endpoint list, in order; data is the EndpointRecord JSON
+CREATE TABLE IF NOT EXISTS endpoints (
+	position INTEGER PRIMARY KEY,
+	url TEXT NOT NULL,
+	data TEXT NOT NULL
+);
+
+-- Run ledger; summary is the RunSummary JSON, results the per-endpoint PingResult[] JSON
+CREATE TABLE IF NOT EXISTS runs (
+	id TEXT PRIMARY KEY,
+	site_id TEXT NOT NULL,
+	trigger TEXT NOT NULL,
+	status TEXT NOT NULL,
+	started_at INTEGER NOT NULL,
+	summary TEXT NOT NULL,
+	results TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS runs_site_started ON runs (site_id, started_at DESC);
+
+-- Rolling reliability per endpoint; data is the EndpointStats JSON
+CREATE TABLE IF NOT EXISTS endpoint_stats (
+	url TEXT PRIMARY KEY,
+	data TEXT NOT NULL,
+	quarantined_at INTEGER,
+	updated_at INTEGER NOT NULL
+);
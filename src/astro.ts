@@ -0,0 +1,151 @@
+/* eslint-disable jsdoc/no-undefined-types */
+// Astro integration: notify the worker when `astro build` finishes.
+//
+//   // astro.config.mjs
+//   import xmlrpcPing from "xmlrpc-for-astro/astro";
+//   export default defineConfig({ site: "https://example.com", integrations: [xmlrpcPing({ siteName: "Example" })] });
+//
+// The worker URL and API key come from XMLRPC_PING_URL / XMLRPC_PING_KEY unless passed as options.
+
+import type { DoPingResult, PingPayload } from "./index";
+
+// --- Types ---
+
+// What the integration accepts
+export type XmlRpcPingOptions = {
+	endpoint?: string; // worker URL; default env XMLRPC_PING_URL
+	apiKey?: string; // `xrp_…` key (requests are signed) or the master secret (sent as Bearer); default env XMLRPC_PING_KEY
+	siteId?: string; // worker site id (multi-site workers)
+	siteName?: string; // default: the worker's SITE_NAME
+	feed?: string | false; // feed path or URL; default: the first built rss/feed/atom route; false: plain ping
+	dryRun?: boolean; // ask the worker for a dry run (needs the dry-run scope)
+	failOpen?: boolean; // default true: a failed ping only logs a warning; false fails the build
+	endpoints?: string[]; // passed as PingPayload.endpoints: pinged instead of the worker's own list
+	changedUrls?: boolean; // default false: send the built routes as changed URLs (`urls`, for IndexNow) — all of them, on every build
+	include?: (pathname: string) => boolean; // with changedUrls, which built routes to send (default: all but 404/500)
+	timeoutMs?: number; // default 60000
+};
+
+// The typed client the integration uses; also usable on its own (e.g. from a deploy script)
+export type PingClient = { ping: (payload: Partial<PingPayload>, opts?: { dryRun?: boolean }) => Promise<DoPingResult> };
+
+// The slice of Astro's integration API used here, kept structural so the worker build needs no `astro` dependency
+type AstroLogger = { info: (message: string) => void; warn: (message: string) => void };
+type AstroIntegration = {
+	name: string;
+	hooks: {
+		"astro:config:done": (params: { config: { site?: string; base: string }; logger: AstroLogger }) => void;
+		"astro:build:done": (params: { pages: Array<{ pathname: string }>; logger: AstroLogger }) => Promise<void>;
+	};
+};
+
+const API_KEY_RE = /^xrp_([0-9a-f]{12})_([0-9a-f]{64})$/; // same format as the worker's keys
+const FEED_ROUTE_RE = /(^|\/)(rss|feed|atom)(\.xml)?\/?$/i;
+const ERROR_ROUTE_RE = /^(404|500)(\/|\.html)?$/;
+
+// --- Client ---
+
+/**
+ * Create a client for the worker's POST trigger. `xrp_` keys sign each request (HMAC-SHA256 over timestamp, nonce,
+ * method, path and body, as the worker's verifySignedRequest expects), so the key itself never goes over the wire.
+ * @param {object} opts Client options
+ * @param {string} opts.endpoint The worker URL
+ * @param {string} opts.apiKey An `xrp_…` key or the master secret
+ * @param {string} [opts.siteId] The worker site id
+ * @param {number} [opts.timeoutMs] Request timeout (default 60000)
+ * @returns {PingClient} The client
+ */
+export function createPingClient(opts: { endpoint: string; apiKey: string; siteId?: string; timeoutMs?: number }): PingClient {
+	return {
+		async ping(payload, { dryRun = false } = {}) {
+			const url = new URL(opts.endpoint);
+			if (dryRun) url.searchParams.set("dry", "1");
+			if (opts.siteId) url.searchParams.set("site", opts.siteId);
+			const body = JSON.stringify(payload);
+			const headers = { "Content-Type": "application/json", ...(await authHeaders(opts.apiKey, url, body)) };
+			const res = await fetch(url, { method: "POST", headers, body, signal: AbortSignal.timeout(opts.timeoutMs ?? 60_000) });
+			if (!res.ok) throw new Error(`worker answered HTTP ${res.status}: ${(await res.text()).slice(0, 200)}`);
+			return (await res.json()) as DoPingResult;
+		},
+	};
+}
+
+/**
+ * Authorization headers for one request: a signature for `xrp_` keys, a Bearer token otherwise
+ * @param {string} apiKey The key or master secret
+ * @param {URL} url The request URL
+ * @param {string} body The request body
+ * @returns {Promise<Record<string, string>>} The headers
+ */
+async function authHeaders(apiKey: string, url: URL, body: string): Promise<Record<string, string>> {
+	const m = API_KEY_RE.exec(apiKey);
+	if (!m) return { Authorization: `Bearer ${apiKey}` };
+	const ts = String(Math.floor(Date.now() / 1000));
+	const nonce = crypto.randomUUID().replaceAll("-", "");
+	const enc = new TextEncoder();
+	const signingKey = toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", enc.encode(`sign:${m[2]}`)))); // the worker keeps this sealed, not in the clear
+	const key = await crypto.subtle.importKey("raw", enc.encode(signingKey), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+	const message = [ts, nonce, "POST", url.pathname + url.search, body].join("\n");
+	const sig = toHex(new Uint8Array(await crypto.subtle.sign("HMAC", key, enc.encode(message))));
+	return { "X-Signature-Key": m[1], "X-Signature-Timestamp": ts, "X-Signature-Nonce": nonce, "X-Signature": `sha256=${sig}` };
+}
+
+/**
+ * Lowercase hex encoding
+ * @param {Uint8Array} bytes The bytes
+ * @returns {string} The hex string
+ */
+function toHex(bytes: Uint8Array): string {
+	return [...bytes].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// --- Integration ---
+
+/**
+ * The Astro integration: on `astro:build:done`, POST `siteName` / `siteUrl` / `feedUrl` (and `endpoints` when given)
+ * to the worker. A build doesn't know which pages changed, so the built page URLs only go out as `urls` (for IndexNow)
+ * with `changedUrls: true`. Needs `site` in the Astro config.
+ * @param {XmlRpcPingOptions} options The options
+ * @returns {AstroIntegration} The integration
+ */
+export default function xmlrpcPing(options: XmlRpcPingOptions = {}): AstroIntegration {
+	const env = (globalThis as { process?: { env: Record<string, string | undefined> } }).process?.env ?? {};
+	const { endpoint = env.XMLRPC_PING_URL, apiKey = env.XMLRPC_PING_KEY, failOpen = true, include = (p: string) => !ERROR_ROUTE_RE.test(p) } = options;
+	let siteUrl: URL | null = null;
+
+	return {
+		name: "xmlrpc-for-astro",
+		hooks: {
+			"astro:config:done": ({ config }) => {
+				siteUrl = config.site ? new URL(config.base, config.site) : null;
+			},
+			"astro:build:done": async ({ pages, logger }) => {
+				const fail = (message: string): void => {
+					if (!failOpen) throw new Error(`xmlrpc-for-astro: ${message}`);
+					logger.warn(message);
+				};
+				if (!siteUrl) return fail("`site` is not set in the Astro config; nothing to ping");
+				if (!endpoint || !apiKey) return fail("no worker endpoint / API key (set XMLRPC_PING_URL and XMLRPC_PING_KEY)");
+
+				const routes = pages.map((p) => p.pathname.replace(/^\//, ""));
+				const feedRoute = options.feed ?? routes.find((p) => FEED_ROUTE_RE.test(p));
+				const base = siteUrl;
+				const payload: Partial<PingPayload> = {
+					siteName: options.siteName,
+					siteUrl: base.href,
+					feedUrl: feedRoute ? new URL(feedRoute, base).href : null,
+				};
+				if (options.endpoints) payload.endpoints = options.endpoints;
+				if (options.changedUrls) payload.urls = routes.filter((p) => include(p) && !FEED_ROUTE_RE.test(p)).map((p) => new URL(p, base).href);
+
+				try {
+					const res = await createPingClient({ endpoint, apiKey, siteId: options.siteId, timeoutMs: options.timeoutMs }).ping(payload, { dryRun: options.dryRun });
+					if (res.status === "skipped") logger.info(`ping skipped: ${res.reason ?? "unknown reason"}`);
+					else logger.info(`${options.dryRun ? "dry run: " : ""}${res.totals?.ok ?? 0}/${res.totals?.total ?? 0} endpoints ok${res.job && !res.job.finishedAt ? " (first batch; the worker continues the rest)" : ""}`);
+				} catch (e) {
+					fail(`ping failed: ${e instanceof Error ? e.message : String(e)}`);
+				}
+			},
+		},
+	};
+}
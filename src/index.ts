@@ -3,9 +3,15 @@
 
 type RuntimeEnv = Env & {
 	XMLRPC_PING_KV: KVNamespace;
+	XMLRPC_PING_DB?: D1Database; // optional: locks, last-seen, endpoints, runs and stats move to D1 (see storage)
+	PING_COORDINATOR?: DurableObjectNamespace; // optional: real runs go through PingCoordinator (see runJob)
 
 	// Auth for manual trigger
 	XMLRPC_PING_SECRET: string;
+	HEALTH_AUTH?: string; // "1": /health, /runs and /metrics need a key with the read-health scope
+
+	// Site registry (JSON array of SiteConfig); `xmlrpc:sites` in KV wins. Unset => one "default" site from the vars below.
+	SITES?: string;
 
 	// Site info
 	SITE_NAME?: string;
@@ -13,8 +19,8 @@ type RuntimeEnv = Env & {
 	FEED_URL?: string | null;
 	PING_ENDPOINTS?: string; // JSON array
 
-	// Deploy detectors
-	DETECTOR?: "github" | "cloudflare";
+	// Deploy detectors (see DETECTORS)
+	DETECTOR?: DetectorName;
 
 	// GitHub detector
 	GITHUB_REPO?: string; // "owner/repo"
@@ -26,23 +32,187 @@ type RuntimeEnv = Env & {
 	CLOUDFLARE_ACCOUNT_ID?: string;
 	CLOUDFLARE_PAGES_PROJECT?: string;
 
+	// GitLab detector (GITLAB_API_URL also covers self-hosted instances)
+	GITLAB_PROJECT?: string; // "group/project" or numeric id
+	GITLAB_BRANCH?: string; // default "main"
+	GITLAB_TOKEN?: string;
+
+	// Netlify / Vercel detectors
+	NETLIFY_SITE_ID?: string;
+	NETLIFY_TOKEN?: string;
+	VERCEL_PROJECT_ID?: string;
+	VERCEL_TEAM_ID?: string;
+	VERCEL_TOKEN?: string;
+
+	// Generic HTTP detector: URL to fingerprint, default <SITE_URL>/sitemap-index.xml
+	DETECT_URL?: string;
+
+	// Detector API base URLs (point them at a local stub server to test a detector)
+	GITHUB_API_URL?: string; // default https://api.github.com
+	CLOUDFLARE_API_URL?: string; // default https://api.cloudflare.com/client/v4
+	GITLAB_API_URL?: string; // default https://gitlab.com/api/v4
+	NETLIFY_API_URL?: string; // default https://api.netlify.com/api/v1
+	VERCEL_API_URL?: string; // default https://api.vercel.com
+
+	// Notification channels next to XML-RPC (each is off until configured)
+	INDEXNOW_KEY?: string; // 8-128 chars [A-Za-z0-9-]; served at /<key>.txt
+	INDEXNOW_KEY_LOCATION?: string; // where the key file lives on the site's host, when not at https://<site host>/<key>.txt
+	INDEXNOW_ENDPOINT?: string; // default https://api.indexnow.org/indexnow
+	WEBSUB_HUBS?: string; // JSON array of hub URLs to notify for FEED_URL
+
+	// Pingback / Webmention sending for links in new posts ("1" to enable)
+	SEND_MENTIONS?: string;
+
+	// Failure notifications, delivered on cron ticks (off while NOTIFY_TARGETS is unset)
+	NOTIFY_TARGETS?: string; // JSON array of NotifyTarget; keep it a secret, Slack/Discord URLs embed tokens
+	NOTIFY_FAIL_RATE?: string; // failed share of a finished run (percent) that raises run.failure-rate, default "50"
+	NOTIFY_DETECTOR_TICKS?: string; // failed detector checks in a row before detector.error, default "3"
+	NOTIFY_DEDUP_HOURS?: string; // events with the same key are dropped within this window, default "6"
+	NOTIFY_DIGEST_HOUR?: string; // UTC hour at which digest targets get their daily summary, default "8"
+
+	// Push triggers (each webhook route is disabled while its secret is unset)
+	GITHUB_WEBHOOK_SECRET?: string; // HMAC key for X-Hub-Signature-256
+	CLOUDFLARE_WEBHOOK_SECRET?: string; // shared secret sent as cf-webhook-auth by Cloudflare Notifications
+
+	// Scheduling policy (the pause switch lives in KV: POST /policy/pause, /policy/resume)
+	POLICY_TIMEZONE?: string; // IANA zone QUIET_HOURS is read in, default "UTC"
+	QUIET_HOURS?: string; // comma-separated "HH:MM-HH:MM" windows without real runs, e.g. "22:00-07:00,12:00-13:00"
+	CRON_COOLDOWN_SECONDS?: string; // min gap between run starts for cron and webhook triggers, default: the site's rateLimitSeconds
+	MANUAL_COOLDOWN_SECONDS?: string; // min gap before a POST trigger may start a run, default: the site's rateLimitSeconds
+	POLICY_COALESCE?: string; // "1": a blocked trigger queues one run that fires once its window reopens, instead of being skipped
+
+	// XML-RPC relay: sites allowed to ping POST /RPC2 (the route is off while the list is empty)
+	RELAY_SITES?: string; // JSON array of RelayEntry or site URLs; the `xmlrpc:relay-sites` KV key wins
+
 	// Optional tuning knobs (strings from Wrangler become numbers when parsed below)
 	SUBREQ_BUDGET?: string; // e.g. "45" on Free, "900" on Paid
 	PING_CONCURRENCY?: string; // e.g. "6"
+	RETRY_MAX?: string; // extra attempts for timeouts, network errors, 429 and 5xx, default "2"
+	RETRY_BASE_MS?: string; // first backoff delay, doubled per retry, default "500"
+	RETRY_MAX_DELAY_MS?: string; // longer Retry-After/backoff waits give up instead, default "5000"
+	PER_HOST_CONCURRENCY?: string; // simultaneous requests per host, default "1"
+	PER_HOST_SPACING_MS?: string; // gap between request starts on one host, default "250"
+	MAX_REDIRECTS?: string; // redirects followed per ping (each one is a subrequest), default "3"
+	QUARANTINE_AFTER?: string; // consecutive failed runs before an endpoint is quarantined, default "5"
+	QUARANTINE_REPROBE_HOURS?: string; // how often a quarantined endpoint is re-tried, default "24"
+	RUN_RETENTION_DAYS?: string; // how long run records are kept, default "30"
+};
+
+// A site this worker pings for. Each site gets its own detector, endpoint list, rate-limit window and KV state.
+type SiteConfig = {
+	id: string; // [a-z0-9-]; "default" keeps the legacy (un-namespaced) KV keys
+	name: string;
+	url: string;
+	feed: string | null;
+	detector: DetectorName;
+	githubRepo?: string; // "owner/repo"
+	githubBranch?: string; // default "main"
+	cloudflareAccountId?: string;
+	cloudflarePagesProject?: string;
+	gitlabProject?: string;
+	gitlabBranch?: string; // default "main"
+	netlifySiteId?: string;
+	vercelProjectId?: string;
+	vercelTeamId?: string;
+	detectUrl?: string; // http detector; default <url>/sitemap-index.xml
+	indexNowKey?: string;
+	indexNowKeyLocation?: string;
+	websubHubs?: string[];
+	endpoints?: string[]; // per-site list; otherwise the shared `xmlrpc:endpoints`
+	rateLimitSeconds: number; // default 3600
+	cooldowns: { cron: number; manual: number }; // seconds between run starts per trigger (webhooks use cron); see siteCooldowns
 };
 
+// Per-site KV keys (see siteKeys)
+type SiteKeys = { lastPing: string; lastSeen: string; job: string; lastResult: string; lastDry: string; runs: string; feedSeen: string; history: string };
+
 type PingPayload = {
 	siteName?: string;
 	siteUrl?: string;
 	feedUrl?: string | null;
-	endpoints?: string[];
+	endpoints?: string[]; // this run's endpoint list, over the site's, KV's and PING_ENDPOINTS (see resolveEndpoints)
+	urls?: string[]; // changed page URLs to submit to IndexNow (the site URL is always included)
+	posts?: string[]; // newly published post URLs whose outbound links get a pingback / Webmention
+};
+
+// Notification channels sent next to the XML-RPC pings
+type ChannelName = "indexnow" | "websub";
+
+type PingResult = {
+	url: string;
+	ok: boolean; // HTTP 2xx *and* the XML-RPC response accepted the ping
+	status: number;
+	error?: string;
+	faultCode?: number; // from a <fault> struct
+	faultString?: string; // from a <fault> struct
+	serviceMessage?: string; // "message" member of the flerror/message struct
+	method?: PingMethod; // method actually sent to this endpoint
+	fallback?: boolean; // extendedPing faulted, so this is the plain ping retry
+	channel?: ChannelName; // absent for XML-RPC pings
+	attempts?: number; // requests sent for this row, retries (and the ping fallback) included
+	errorClass?: ErrorClass; // final error class of a failed row
+	redirects?: RedirectHop[]; // redirects followed, in order; the last hop's url answered
+};
+
+// One followed redirect: the 3xx status and the URL it pointed to
+type RedirectHop = { status: number; url: string };
+
+// Where an endpoint redirected to on its latest ping (see recordRedirects)
+type RedirectInfo = { to: string; permanent: boolean; ok: boolean; at: number };
+
+// One entry of the `xmlrpc:endpoints` list (legacy lists are plain URL strings; both shapes are read)
+type EndpointRecord = {
+	url: string;
+	label?: string;
+	notes?: string;
+	addedAt: number; // 0 for entries migrated from a legacy string list
+	disabled?: boolean;
+};
+
+type EndpointInput = { url?: unknown; label?: unknown; notes?: unknown; disabled?: unknown };
+
+type ErrorClass = "timeout" | "network" | "redirect" | "http-4xx" | "http-5xx" | "fault" | "flerror" | "invalid-response";
+
+// Rolling per-endpoint reliability, updated after every real batch
+type EndpointStats = {
+	runs: number;
+	successes: number;
+	consecutiveFailures: number;
+	latencies: number[]; // last LATENCY_SAMPLES durations (ms), newest last
+	lastAttemptAt: number;
+	lastSuccessAt: number | null;
+	lastErrorClass: ErrorClass | null;
+	quarantinedAt: number | null;
+	nextProbeAt: number | null; // when a quarantined endpoint gets pinged again
 };
 
-type PingResult = { url: string; ok: boolean; status: number; error?: string };
+type EndpointReliability = { url: string; runs: number; successRate: number; consecutiveFailures: number; p50: number | null; p95: number | null; lastSuccessAt: number | null; lastErrorClass: ErrorClass | null; quarantinedAt: number | null; nextProbeAt: number | null };
+
+type AuditEntry = { time: number; action: string; detail: unknown };
+
+type ApiScope = "trigger" | "dry-run" | "read-health" | "manage-endpoints";
+
+// A named API key; only the SHA-256 (hex) of its secret is stored, and revoked keys are kept for the record
+type ApiKeyRecord = { id: string; name: string; hash: string; signing?: string; scopes: ApiScope[]; createdAt: number; revokedAt?: number }; // signing: see sealSigningKey
+
+type PingMethod = "weblogUpdates.extendedPing" | "weblogUpdates.ping";
+
+// Learned per endpoint: what to send first next time
+type Capabilities = Record<string, { method: PingMethod; learnedAt: number; source: "fallback" | "probe" | "ping" }>;
+
+// Decoded XML-RPC values (dateTime.iso8601 and base64 stay as raw strings)
+type XmlRpcValue = string | number | boolean | null | XmlRpcValue[] | { [member: string]: XmlRpcValue };
+
+type XmlRpcResponse = { params: XmlRpcValue[]; fault?: { code: number; string: string } };
+
+// A decoded <methodCall> (what the relay receives)
+type XmlRpcCall = { methodName: string; params: XmlRpcValue[] };
+
+type PingOutcome = { accepted: boolean; faultCode?: number; faultString?: string; serviceMessage?: string; error?: string };
 
 interface DoPingResult {
-	status: "done" | "skipped";
-	reason?: string;
+	status: "done" | "skipped" | "error";
+	reason?: string; // why it was skipped or failed
 	dryRun?: boolean;
 	method?: string;
 	siteName?: string;
@@ -55,26 +225,123 @@ interface DoPingResult {
 		batchStart?: number;
 		batchEnd?: number;
 		batchCount?: number;
+		quarantined?: number; // skipped in this batch because quarantined
 	};
 	summary?: Array<PingResult & VerboseFields>;
 	nextCursor?: number | null;
 	subrequestBudget?: number;
+	subrequestsUsed?: number; // what the caller's invocation spent: pings, retries, redirect hops and channel requests, or 1 (the call) when a PingCoordinator ran the batch
 	concurrencyUsed?: number;
+	job?: JobProgress;
 }
 
+// What started a job: the cron detectors, a manual POST, a deploy webhook or a ping to the relay (POST /RPC2)
+type JobTrigger = "cron" | "manual" | "webhook" | "relay";
+
+// A ping job spans as many invocations as it takes to reach every endpoint under SUBREQ_BUDGET
+type PingJob = {
+	id: string;
+	trigger: JobTrigger;
+	deployId: string | null; // commit sha / deploy id that started the job (cron only)
+	newItems?: string[]; // feed item URLs that caused the job (feed detector)
+	payload: Partial<PingPayload>; // replayed on every batch so all slices send the same ping
+	limit?: number; // the start's `?limit=` (first N endpoints only)
+	endpoints?: string[]; // the list resolved (and limited) by the first batch; later batches slice this one
+	cursor: number; // next endpoint index to ping
+	total: number;
+	startedAt: number;
+	updatedAt: number;
+	finishedAt: number | null;
+	batches: Array<{ start: number; end: number; ok: number; fail: number; at: number }>;
+	results: PingResult[]; // accumulated across batches
+};
+
+type JobProgress = Omit<PingJob, "payload" | "endpoints" | "results">;
+
+// One entry of the run ledger: a whole job for real runs, a single invocation for dry runs
+type RunRecord = {
+	id: string; // the job id for real runs
+	trigger: JobTrigger | "dry";
+	deployId: string | null;
+	newItems?: string[]; // feed item URLs that caused the run (feed detector)
+	siteId?: string; // absent on runs recorded before multi-site support
+	site: { name: string; url: string; feed: string | null };
+	method: string;
+	status: "running" | "done";
+	startedAt: number;
+	finishedAt: number | null;
+	durationMs: number;
+	totals: { total: number; ok: number; fail: number };
+	results: PingResult[];
+};
+
+type RunSummary = Omit<RunRecord, "results">;
+
+type RunDiff = {
+	a: RunSummary;
+	b: RunSummary;
+	fixed: Array<{ url: string; before: PingResult; after: PingResult }>; // failed in a, ok in b
+	broken: Array<{ url: string; before: PingResult; after: PingResult }>; // ok in a, failed in b
+	added: string[]; // pinged in b only
+	removed: string[]; // pinged in a only
+	unchanged: number;
+};
+
+// --- Detector types ---
+
+type DetectorName = "github" | "cloudflare" | "gitlab" | "netlify" | "vercel" | "http" | "feed";
+
+// What a detector reports: `id` is the dedup key stored in last-seen; `newItems` (feed detector) are marked seen once their run starts
+type DeployInfo = { id: string; timestamp: number | null; url?: string; newItems?: FeedItem[] };
+
+// One RSS <item> / Atom <entry>: `id` is the guid/id (or the link when missing)
+type FeedItem = { id: string; url: string; date: number | null };
+
+// One subrequest per call; null when unconfigured or nothing new, throws when the API / URL answers with an error
+type Detector = (env: RuntimeEnv, site: SiteConfig) => Promise<DeployInfo | null>;
+
 interface GitHubBranchInfo {
-	commit?: { sha?: string };
+	commit?: { sha?: string; html_url?: string; commit?: { committer?: { date?: string } } };
 }
 interface CfDeploy {
 	id?: string;
 	deployment_id?: string;
 	short_id?: string;
+	created_on?: string;
+	url?: string;
+}
+interface GitLabBranchInfo {
+	commit?: { id?: string; committed_date?: string; web_url?: string };
+}
+interface NetlifyDeploy {
+	id?: string;
+	created_at?: string;
+	deploy_ssl_url?: string;
+}
+interface VercelDeployments {
+	deployments?: { uid?: string; created?: number; url?: string }[];
 }
 interface CfDeployments {
 	result?: { deployments?: CfDeploy[] } | CfDeploy[];
 }
 
+// The fields we read from GitHub `push` / `deployment_status` webhook payloads
+interface GitHubWebhookPayload {
+	ref?: string;
+	after?: string;
+	deleted?: boolean;
+	repository?: { full_name?: string };
+	deployment?: { sha?: string; ref?: string };
+	deployment_status?: { state?: string };
+}
+
+// The fields we read from a Cloudflare Notifications (Pages deployment) webhook payload
+interface CfWebhookPayload {
+	data?: { project_name?: string; deployment_id?: string };
+}
+
 type PingOpts = {
+	budget?: number; // subrequests this call may use (defaults to SUBREQ_BUDGET)
 	dryRun?: boolean; // skip 1h lock + (optionally) KV writes
 	concurrency?: number; // default 6
 	timeoutMs?: number; // default 10000
@@ -82,15 +349,31 @@ type PingOpts = {
 	verbose?: boolean; // add latency & body snippet
 	only?: "all" | "fail" | "success"; // filter output
 	cursor?: number; // NEW: 0-based index into the endpoints array
+	job?: PingJob; // the job this batch belongs to (runBatch took the site's lock when it started; cursor comes from the job)
 };
 
 type VerboseFields = { ms?: number; bodySnippet?: string };
 
-type ViewMode = "all" | "fail" | "ok";
+type ViewMode = "all" | "fail" | "ok" | "quarantined";
+
+// How the /health results table is filtered, sorted and paged (see parseHealthQuery)
+type HealthSort = "url" | "status" | "latency" | "error";
+type HealthQuery = { view: ViewMode; q: string; sort: HealthSort | null; dir: "asc" | "desc"; page: number; per: number }; // sort null: as pinged
+
+// One endpoint's row from one recorded run, for /health/endpoint
+type EndpointAttempt = { runId: string; at: number; trigger: RunRecord["trigger"]; result: PingResult & VerboseFields };
+
+// Per-site attempt history read by /health/endpoint: endpointKey -> attempts, newest first
+type EndpointHistoryKV = Record<string, EndpointAttempt[]>;
+
+// Everything /health/endpoint shows for one URL
+type EndpointHistory = { url: string; siteId: string; record: EndpointRecord | null; reliability: EndpointReliability | null; redirect: RedirectInfo | null; attempts: EndpointAttempt[] }; // attempts newest first
 
 interface HealthData {
+	siteId: string;
 	site: { name: string | null; url: string | null; feed: string | null };
 	latestId: string | null;
+	newItems: string[]; // feed items that caused the last real run
 	endpointsCount: number;
 	lastPingAt: number | null;
 	nextAllowedInMs: number;
@@ -100,96 +383,62 @@ interface HealthData {
 	lastRequestAt: number | null;
 	lastRequestBody: unknown;
 	// NEW: full list available for /health filtering
-	summary: PingResult[];
+	summary: Array<PingResult & VerboseFields>;
 	// kept for compatibility, not used by the new UI
 	recentSample: PingResult[];
 	sampleSource?: { time: number; result: unknown } | undefined;
+	job: JobProgress | null;
+	mentions: { queued: number; sent: number; failed: number; noEndpoint: number };
+	notifications: NotifyHistoryEntry[]; // newest first, shared by all sites
+	requests: Array<Omit<RequestLogEntry, "ip" | "body">>; // latest request log entries, shared by all sites (IPs only via /audit)
+	policy: PolicyView;
+	configStatus: CheckStatus; // the worst validateConfig finding, shown to everyone
+	config: DiagnosticCheck[]; // the findings that didn't pass, for authenticated readers only (full report: /diagnostics)
+	quarantined: EndpointReliability[];
+	reliability: EndpointReliability[];
 }
 
 type LastResultKV = {
 	time: number;
-	latest?: { id?: string }; // from scheduled()
+	latest?: { id?: string; newItems?: string[] }; // deploy id (and new feed items) that started the job, if any
+	runId?: string;
 	result?: {
 		status: string;
 		method: string;
 		siteName: string;
 		siteUrl: string;
 		feedUrl: string | null;
-		summary?: Array<{ url: string; ok: boolean; status: number; error?: string }>;
+		summary?: PingResult[];
 	};
 };
 
 const HOUR = 60 * 60;
-const RL_KEY = "xmlrpc:last-ping";
-const LAST_KEY = "xmlrpc:last-seen"; // commit sha or deploy id
+const DEFAULT_SITE_ID = "default";
+const SITES_KEY = "xmlrpc:sites"; // optional site registry (JSON array of SiteConfig)
+const SITES_CACHE_TTL = 300; // seconds an edge location may serve a cached xmlrpc:sites
+const JOB_STALE_MS = 24 * HOUR * 1000; // abandon unfinished jobs after a day
+const CAPS_KEY = "xmlrpc:capabilities"; // endpoint URL -> supported ping method
+const ENDPOINTS_KEY = "xmlrpc:endpoints";
+const AUDIT_KEY = "xmlrpc:audit"; // newest-first list of management actions
+const REDIRECTS_KEY = "xmlrpc:redirects"; // RedirectInfo per endpoint URL, from the latest ping
+const AUDIT_MAX = 200;
+const STATS_KEY = "xmlrpc:stats"; // endpoint URL -> EndpointStats
+const LATENCY_SAMPLES = 20;
+const RUN_PREFIX = "xmlrpc:run:"; // + run id -> RunRecord
+const RUNS_MAX = 500;
+
+// Shared with the typed client in astro.ts
+export type { DoPingResult, PingPayload, PingResult };
 
 const minimal_endpoints = ["https://rpc.pingomatic.com/", "https://blogsearch.google.com/ping/RPC2", "https://rpc.twingly.com/", "https://ping.fc2.com/", "https://ping.feedburner.com", "http://ping.blo.gs/", "http://www.weblogues.com/RPC/", "http://www.blogdigger.com/RPC2", "http://pingoat.com/goat/RPC2"];
 
 export default {
-	// Manual trigger (optional) — e.g., from CI
-	async fetch(request: Request, env: RuntimeEnv): Promise<Response> {
-		// Health page (human-friendly)
-		// GET /health?refresh=60&view=fail|all&format=json|csv|ndjson
-		const url = new URL(request.url);
-		const cursorQ = url.searchParams.get("cursor");
-		const dryRun = url.searchParams.get("dry") === "1";
-		const verbose = url.searchParams.get("verbose") === "1";
-		const only = (url.searchParams.get("only") as "all" | "fail" | "success") || "all";
-		const limit = Number(url.searchParams.get("limit") || "0");
-		const format = url.searchParams.get("format"); // json (default), csv, ndjson
-
-		if (request.method === "GET" && url.pathname === "/health") {
-			const format = url.searchParams.get("format"); // json (default), csv, ndjson (ignored for GET)
-			const refresh = Number(url.searchParams.get("refresh") || "0"); // seconds
-			const view = (url.searchParams.get("view") as ViewMode) || "all";
-
-			if (format === "json") {
-				const data = await readHealth(env);
-				return Response.json(data, { headers: { "Cache-Control": "no-store" } });
-			}
-			const html = await renderHealthHtml(env, refresh, view);
-			return new Response(html, {
-				status: 200,
-				headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" },
-			});
-		}
-
-		// Regular HTTP POST trigger for direct triggering via CURL / PowerShell Invoke-RestMethod
-		if (request.method !== "POST") return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST" } });
-		const auth = request.headers.get("authorization");
-		if (!auth || auth !== `Bearer ${env.XMLRPC_PING_SECRET}`) return new Response("Unauthorized", { status: 401 });
-
-		const body = (await safeJson(request)) as Partial<PingPayload & { cursor?: number }>;
-		const cursor = typeof body.cursor === "number" ? body.cursor : cursorQ ? Number(cursorQ) : 0;
-		const res = await doPing(env, body, { dryRun, verbose, only, limit, cursor });
-
-		// Persist only non-dry runs to "last-result"
-		if (!dryRun) {
-			await env.XMLRPC_PING_KV.put("xmlrpc:last-result", JSON.stringify({ time: Date.now(), result: res }), { expirationTtl: 7 * 24 * 3600 });
-		} else {
-			// OPTIONAL: also snapshot last dry run so /health has something to show
-			await env.XMLRPC_PING_KV.put("xmlrpc:last-dry", JSON.stringify({ time: Date.now(), result: res }), { expirationTtl: 24 * 3600 });
-		}
-
-		// CSV / NDJSON exporters for easy local analysis
-		if (format === "csv") {
-			const csv = toCsv(res.summary ?? []);
-			return new Response(csv, {
-				headers: {
-					"Content-Type": "text/csv; charset=utf-8",
-					"Content-Disposition": `attachment; filename="xmlrpc-dryrun-${only}.csv"`,
-					"Cache-Control": "no-store",
-				},
-			});
-		}
-		if (format === "ndjson") {
-			const nd = toNdjson(res.summary ?? []);
-			return new Response(nd, {
-				headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-store" },
-			});
-		}
-
-		return Response.json(res, { headers: { "Cache-Control": "no-store" } });
+	// Manual trigger (optional) — e.g., from CI. Authenticated calls and failed auth attempts go to the request log.
+	async fetch(request: Request, env: RuntimeEnv, ctx: ExecutionContext): Promise<Response> {
+		const body = request.method === "GET" || request.method === "HEAD" ? "" : await request.clone().text();
+		const res = await handleRequest(request, env, ctx);
+		ctx.waitUntil(logRequest(env, request, body, res).catch(noop));
+		return res;
 	},
 
 	// Cron trigger — zero coupling with your site repo
@@ -202,132 +451,462 @@ export default {
 	 * @returns {Promise<void>} The scheduled event handler
 	 */
 	async scheduled(_event: ScheduledController, env: RuntimeEnv, _ctx: ExecutionContext): Promise<void> {
+		holdMetrics(); // the tick's detector checks and batches are written to the counters once, at the end
 		try {
-			const detector = (env.DETECTOR || "github") as "github" | "cloudflare";
-			const latest = detector === "cloudflare" ? await latestCloudflareDeploy(env) : await latestGithubCommit(env);
-			if (!latest?.id) return;
+			// The subrequest budget is per invocation, not per site: every site's batch and detector call this tick
+			// comes out of one budget.
+			const sites = await loadSites(env);
+
+			// A broken config would otherwise just look like a quiet cron: raise config.invalid (deduped like every event)
+			const invalid = validateConfig(env, sites).filter((c) => c.status === "fail");
+			if (invalid.length) await queueNotifications(env, [{ kind: "config.invalid", key: `config.invalid:${invalid.map((c) => c.id).join(",")}`, title: `${invalid.length} configuration error(s)`, text: invalid.map((c) => `${c.id}: ${c.message}`).join("\n") }]);
+
+			// Queued notifications go out first; the rest of the budget is left for pings
+			const budget = numberOr(env.SUBREQ_BUDGET, 45);
+			let left = budget - (await deliverNotifications(env, Math.min(NOTIFY_TICK_MAX, budget - 1)));
+
+			// Relay sites have jobs too, but no detector
+			const withRelays = [...sites, ...(await relaySites(env))];
+			const busy = new Set<SiteConfig>();
+			for (const site of withRelays) if (await readActiveJob(env, site)) busy.add(site);
+
+			// Detectors go first, for every site without a job, so a long job on one site doesn't hold up the others
+			const fresh: Array<{ site: SiteConfig; deploy: DeployInfo }> = [];
+			for (const site of sites) {
+				if (busy.has(site) || left < 1) continue;
+				// Sites the policy holds can't start a job anyway: skip their detector call, unless held deploys are queued
+				const block = await checkPolicy(env, site, "cron");
+				if (block && env.POLICY_COALESCE !== "1") continue;
+
+				// Polling is the fallback for webhooks: anything they already handled is deduped by last-seen
+				left--;
+				let latest: DeployInfo | null;
+				try {
+					latest = await DETECTORS[site.detector](env, site);
+				} catch (e) {
+					await trackDetector(env, site, e instanceof Error ? e.message : String(e));
+					await recordMetrics(env, (m) => bump(m.detector, `${site.id} ${site.detector} error`));
+					continue;
+				}
+				await trackDetector(env, site, null);
+				const isNew = !!latest?.id && !(await deploySkipReason(env, site, latest.id));
+				await recordMetrics(env, (m) => bump(m.detector, `${site.id} ${site.detector} ${isNew ? "new" : "unchanged"}`));
+				if (!latest?.id || !isNew) continue; // nothing new
+				if (block) {
+					await deferRun(env, site, block, { trigger: "cron", deploy: latest, payload: {} });
+					continue;
+				}
 
-			const lastSeen = await env.XMLRPC_PING_KV.get(LAST_KEY);
-			if (lastSeen === latest.id) return; // nothing new
+				fresh.push({ site, deploy: latest });
+			}
 
-			// also enforce ≤ 1/hour
-			const rl = await env.XMLRPC_PING_KV.get(RL_KEY);
-			if (rl) return;
+			// Then one batch each for the current jobs (the next slice, until every endpoint was hit; runBatch holds them
+			// while the policy is paused or in quiet hours) and the new deploys, splitting what's left evenly
+			const batches = [
+				...[...busy].map((site) => (share: number) => runJob(env, site, { op: "continue", opts: { budget: share } })),
+				...fresh.map(
+					({ site, deploy }) =>
+						(share: number) =>
+							startDeployRun(env, site, deploy, "cron", share),
+				),
+			];
+			for (const [i, batch] of batches.entries()) {
+				const share = Math.floor(left / (batches.length - i)); // a batch's unused share goes to the next ones
+				if (share < 1) continue; // the job waits a tick; the deploy's last-seen isn't set, so it's noticed again
+				left -= (await batch(share)).subrequestsUsed ?? 0;
+			}
 
-			const result = await doPing(env, {});
-			await env.XMLRPC_PING_KV.put(LAST_KEY, latest.id);
-			// pre-set 1h window
-			await env.XMLRPC_PING_KV.put(RL_KEY, String(Date.now()), { expirationTtl: HOUR });
+			// Then a coalesced run whose window has reopened
+			if (left >= 1)
+				left -= await fireQueuedRun(
+					env,
+					withRelays.filter((s) => !busy.has(s) && !fresh.some((f) => f.site === s)),
+					left,
+				);
 
-			// Optional: log success
-			await env.XMLRPC_PING_KV.put("xmlrpc:last-result", JSON.stringify({ time: Date.now(), latest, result }), { expirationTtl: 7 * 24 * 3600 });
+			// Spend what's left on queued pingbacks / Webmentions
+			if (env.SEND_MENTIONS === "1" && left > 0) await processMentions(env, left);
 		} catch (e) {
-			// swallow to avoid cron alarms; consider sending to Sentry/Logtail
+			// swallow to avoid cron alarms; run/detector/quarantine failures reach NOTIFY_TARGETS on their own
 			// eslint-disable-next-line no-console
 			console.error("scheduled error", e instanceof Error ? e.message : String(e)); // tiny breadcrumb
 			await noop();
+		} finally {
+			await flushMetrics(env).catch(noop);
 		}
 	},
 };
 
+/**
+ * Route a request: /health, /runs, /metrics, webhooks, the management APIs and the POST trigger
+ * @param {Request} request The incoming request
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {ExecutionContext} ctx The execution context
+ * @returns {Promise<Response>} The response
+ */
+async function handleRequest(request: Request, env: RuntimeEnv, ctx: ExecutionContext): Promise<Response> {
+	// Health page (human-friendly)
+	// GET /health?refresh=60&view=fail|all&q=…&sort=url|status|latency|error&dir=asc|desc&page=1&per=50&format=json|csv|ndjson
+	// GET /health/endpoint?url=…&format=json (one endpoint's recent attempts)
+	const url = new URL(request.url);
+	const cursorQ = url.searchParams.get("cursor");
+	const dryRun = url.searchParams.get("dry") === "1";
+	const verbose = url.searchParams.get("verbose") === "1";
+	const only = (url.searchParams.get("only") as "all" | "fail" | "success") || "all";
+	const limit = Number(url.searchParams.get("limit") || "0");
+	const format = url.searchParams.get("format"); // json (default), csv, ndjson
+	const probe = url.searchParams.get("probe") === "1"; // system.listMethods only, no pings
+
+	// Self-diagnostics (master secret only). Routed before the site registry is read, so a missing KV binding is reported.
+	// GET /diagnostics?probe=0 skips the live detector calls
+	if (request.method === "GET" && url.pathname === "/diagnostics") {
+		if (!isAuthorized(request, env)) return new Response("Unauthorized", { status: 401 });
+		const report = await runDiagnostics(env, url.searchParams.get("probe") !== "0");
+		return Response.json(report, { status: report.status === "fail" ? 503 : 200, headers: { "Cache-Control": "no-store" } });
+	}
+
+	const sites = await loadSites(env);
+	const siteParam = url.searchParams.get("site");
+
+	if (request.method === "GET" && (url.pathname === "/health" || url.pathname === "/health/endpoint")) {
+		const denied = env.HEALTH_AUTH === "1" ? await requireScope(request, env, "read-health") : null;
+		if (denied) return denied;
+		// The request log (callers, key ids, the last trigger body) is only shown to authenticated readers
+		const credentials = request.headers.has("authorization") || request.headers.has("X-Signature");
+		const withRequests = env.HEALTH_AUTH === "1" || (credentials && !(await requireScope(request, env, "read-health")));
+		const format = url.searchParams.get("format"); // html (default), json; csv / ndjson export the results table's current view
+		const refresh = Number(url.searchParams.get("refresh") || "0"); // seconds
+		const query = parseHealthQuery(url);
+
+		// Several sites and none picked => overview of all of them
+		const site = siteParam ? sites.find((s) => s.id === siteParam) : sites.length === 1 ? sites[0] : undefined;
+		if (siteParam && !site) return new Response("Unknown site", { status: 404 });
+		if (url.pathname === "/health/endpoint") {
+			const target = url.searchParams.get("url");
+			if (!target) return new Response("Missing ?url=", { status: 400 });
+			const history = await readEndpointHistory(env, site ?? sites[0], target);
+			if (format === "json") return Response.json(history, { headers: { "Cache-Control": "no-store" } });
+			return new Response(renderEndpointHtml(history, sites.length > 1), { headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" } });
+		}
+		if (format === "csv" || format === "ndjson") {
+			if (!site) return new Response("Pick a site with ?site=", { status: 400 });
+			const rows = healthRows(await readHealth(env, site), query);
+			const filename = `xmlrpc-health-${site.id}-${query.view}.${format}`;
+			const type = format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson";
+			return new Response(format === "csv" ? toCsv(rows) : toNdjson(rows), { headers: { "Content-Type": type, "Content-Disposition": `attachment; filename="${filename}"`, "Cache-Control": "no-store" } });
+		}
+		if (format === "json") {
+			const data = site ? await readHealth(env, site, withRequests) : { sites: await Promise.all(sites.map((s) => readHealth(env, s, withRequests))) };
+			return Response.json(data, { headers: { "Cache-Control": "no-store" } });
+		}
+		const html = site ? await renderHealthHtml(env, site, refresh, query, sites.length > 1, withRequests) : await renderSitesOverviewHtml(env, sites, refresh);
+		return new Response(html, {
+			status: 200,
+			headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" },
+		});
+	}
+
+	// Run ledger (read-only)
+	if (request.method === "GET" && (url.pathname === "/runs" || url.pathname.startsWith("/runs/"))) {
+		const denied = env.HEALTH_AUTH === "1" ? await requireScope(request, env, "read-health") : null;
+		if (denied) return denied;
+		return handleRunsApi(env, sites, url);
+	}
+
+	// Prometheus / OpenMetrics scrape target (same access as /health)
+	if (request.method === "GET" && url.pathname === "/metrics") {
+		const denied = env.HEALTH_AUTH === "1" ? await requireScope(request, env, "read-health") : null;
+		if (denied) return denied;
+		return new Response(await renderMetrics(env, sites), { headers: { "Content-Type": "application/openmetrics-text; version=1.0.0; charset=utf-8", "Cache-Control": "no-store" } });
+	}
+
+	// IndexNow key file: GET /<key>.txt answers with the key of the site that owns it
+	if (request.method === "GET" && url.pathname.endsWith(".txt")) {
+		const key = url.pathname.slice(1, -".txt".length);
+		if (sites.some((s) => s.indexNowKey === key)) return new Response(key, { headers: { "Content-Type": "text/plain; charset=utf-8" } });
+	}
+
+	// Deploy webhooks (verified by their own secrets, not the Bearer token)
+	if (request.method === "POST" && url.pathname === "/webhooks/github") {
+		return handleGithubWebhook(request, env, ctx, sites);
+	}
+	if (request.method === "POST" && url.pathname === "/webhooks/cloudflare") {
+		return handleCloudflareWebhook(request, env, ctx, sites);
+	}
+
+	// XML-RPC relay for allow-listed sites (Ping-o-Matic style; the allow-list is the only check)
+	if (url.pathname === "/RPC2") {
+		return handleRelay(request, env);
+	}
+
+	// Request log and management actions (master secret only)
+	if (request.method === "GET" && url.pathname === "/audit") {
+		if (!isAuthorized(request, env)) return new Response("Unauthorized", { status: 401 });
+		return handleAuditApi(env, url);
+	}
+
+	// Scheduling policy: pause / resume and queued runs (master secret only)
+	if (url.pathname === "/policy" || url.pathname.startsWith("/policy/")) {
+		if (!isAuthorized(request, env)) return new Response("Unauthorized", { status: 401 });
+		return handlePolicyApi(request, env, url, sites);
+	}
+
+	// API key management (master secret only)
+	if (url.pathname === "/keys") {
+		if (!isAuthorized(request, env)) return new Response("Unauthorized", { status: 401 });
+		return handleKeysApi(request, env, url);
+	}
+
+	// KV -> D1 copy for the storage backend switch (master secret only)
+	if (request.method === "POST" && url.pathname === "/storage/migrate") {
+		if (!isAuthorized(request, env)) return new Response("Unauthorized", { status: 401 });
+		return handleStorageMigrate(env, sites, url);
+	}
+
+	// Endpoint management API (manage-endpoints scope): list / add / update / remove / bulk-import / canonical URLs
+	if (url.pathname === "/endpoints" || url.pathname === "/endpoints/import" || url.pathname === "/endpoints/canonical") {
+		const denied = await requireScope(request, env, "manage-endpoints");
+		if (denied) return denied;
+		return url.pathname === "/endpoints/canonical" ? handleCanonicalApi(request, env) : handleEndpointsApi(request, env, url);
+	}
+
+	// Regular HTTP POST trigger for direct triggering via CURL / PowerShell Invoke-RestMethod
+	if (request.method !== "POST") return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST" } });
+	const denied = await requireScope(request, env, dryRun && !probe ? "dry-run" : "trigger");
+	if (denied) return denied;
+
+	const body = (await safeJson(request)) as Partial<PingPayload & { cursor?: number; siteId?: string }>;
+	const cursor = typeof body.cursor === "number" ? body.cursor : cursorQ ? Number(cursorQ) : 0;
+	const siteId = siteParam ?? body.siteId ?? sites[0].id;
+	const site = sites.find((s) => s.id === siteId);
+	if (!site) return Response.json({ error: `unknown site: ${siteId}` }, { status: 404 });
+
+	// Real runs always go through a job: continue the unfinished one (its lock doesn't block it), or start a new one
+	// when the policy allows (otherwise it's skipped or queued). doPing persists "last-result" / "last-dry" and the run ledger.
+	let res: DoPingResult;
+	if (probe) {
+		res = await probeMethods(env, site, body, { limit, cursor });
+	} else if (!dryRun) {
+		const active = await readActiveJob(env, site);
+		// A POST during a job continues it; one asking for a different ping or limit would be silently dropped, so refuse it
+		if (active && (!samePayload(body, active.payload) || (limit > 0 && limit !== active.limit))) {
+			return Response.json({ error: "a job with a different payload or limit is in progress; retry once it finishes, or POST an empty body to continue it", job: jobProgress(active) }, { status: 409, headers: { "Cache-Control": "no-store" } });
+		}
+		const block = active ? null : await checkPolicy(env, site, "manual");
+		if (block) res = { status: "skipped", reason: await deferRun(env, site, block, { trigger: "manual", payload: body }) };
+		else res = await runJob(env, site, active ? { op: "continue", opts: { verbose, only } } : { op: "start", trigger: "manual", payload: body, opts: { verbose, only, limit, cursor } });
+	} else {
+		res = await doPing(env, site, body, { dryRun, verbose, only, limit, cursor });
+	}
+
+	// CSV / NDJSON exporters for easy local analysis
+	if (format === "csv") {
+		const csv = toCsv(res.summary ?? []);
+		return new Response(csv, {
+			headers: {
+				"Content-Type": "text/csv; charset=utf-8",
+				"Content-Disposition": `attachment; filename="xmlrpc-dryrun-${only}.csv"`,
+				"Cache-Control": "no-store",
+			},
+		});
+	}
+	if (format === "ndjson") {
+		const nd = toNdjson(res.summary ?? []);
+		return new Response(nd, {
+			headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-store" },
+		});
+	}
+
+	return Response.json(res, { status: res.status === "error" ? 500 : 200, headers: { "Cache-Control": "no-store" } });
+}
+
 /**
  * Perform the ping operation
  * @param {RuntimeEnv} env The environment variables
+ * @param {SiteConfig} site The site to ping for (its KV keys, lock window and defaults)
  * @param {Partial<PingPayload>} payload The ping payload
  * @param opts
  * @returns {Promise<object>} The ping result
  */
-async function doPing(env: RuntimeEnv, payload: Partial<PingPayload>, opts: PingOpts = {}): Promise<DoPingResult> {
-	const { dryRun = false, concurrency = Math.max(1, Math.min(Number(env.PING_CONCURRENCY ?? 6), 10)), timeoutMs = 10_000, limit = 0, verbose = false, only = "all", cursor = 0 } = opts;
+async function doPing(env: RuntimeEnv, site: SiteConfig, payload: Partial<PingPayload>, opts: PingOpts = {}): Promise<DoPingResult> {
+	const { dryRun = false, concurrency = Math.max(1, Math.min(Number(env.PING_CONCURRENCY ?? 6), 10)), timeoutMs = 10_000, limit = 0, verbose = false, only = "all", cursor = 0, job } = opts;
+	const keys = siteKeys(site);
 
 	// Compute a safe budget (default 45 for Free; if you’re Unbound/Paid set SUBREQ_BUDGET="900")
-	const rawBudget = Number(env.SUBREQ_BUDGET ?? 45);
+	const rawBudget = opts.budget ?? Number(env.SUBREQ_BUDGET ?? 45);
 	const SUBREQ_BUDGET = Math.max(1, Math.min(rawBudget, 1000)); // clamp
 	const MAX_CONCURRENCY = Math.max(1, Math.min(concurrency, 6)); // be polite
+	const retryMax = Math.max(0, Math.min(numberOr(env.RETRY_MAX, 2), 5));
+	const retryBaseMs = Math.max(0, numberOr(env.RETRY_BASE_MS, 500));
+	const retryMaxDelayMs = Math.max(0, numberOr(env.RETRY_MAX_DELAY_MS, 5000));
+	const hostConcurrency = Math.max(1, numberOr(env.PER_HOST_CONCURRENCY, 1));
+	const hostSpacingMs = Math.max(0, numberOr(env.PER_HOST_SPACING_MS, 250));
+	const maxRedirects = Math.max(0, Math.min(numberOr(env.MAX_REDIRECTS, 3), 10));
+	const runStarted = Date.now();
 
-	// Respect the 1/h lock only for *non-dry* starts
-	if (!dryRun) {
-		const rl = await env.XMLRPC_PING_KV.get(RL_KEY);
-		if (rl) return { status: "skipped", reason: "rate-limited (<=1/hour)" };
-	}
+	const siteName = payload.siteName ?? site.name;
+	const siteUrl = payload.siteUrl ?? site.url;
+	const feedUrl = payload.feedUrl ?? site.feed;
 
-	const siteName = payload.siteName ?? env.SITE_NAME ?? "Viorel Mocanu";
-	const siteUrl = payload.siteUrl ?? env.SITE_URL ?? "https://www.viorelmocanu.ro";
-	const feedUrl = payload.feedUrl ?? env.FEED_URL ?? null;
+	// Build full endpoint list; a job keeps the one its first batch resolved, so every slice indexes the same list
+	let endpoints = job?.endpoints ?? (await resolveEndpoints(env, site, payload)).urls;
+	const jobLimit = job ? (job.limit ?? 0) : limit;
+	if (!job?.endpoints && jobLimit > 0) endpoints = endpoints.slice(0, jobLimit);
 
-	// Build full endpoint list
-	let endpoints: string[] = [];
-	const kvList = (await env.XMLRPC_PING_KV.get("xmlrpc:endpoints", "json")) as string[] | null;
-	if (Array.isArray(kvList)) endpoints = kvList;
-	if (!endpoints.length) {
-		endpoints = Array.isArray(payload.endpoints) ? payload.endpoints : env.PING_ENDPOINTS ? JSON.parse(env.PING_ENDPOINTS) : minimal_endpoints;
-	}
-	if (limit > 0) endpoints = endpoints.slice(0, limit);
+	// IndexNow / WebSub go out once per real run (first batch of a job, or cursor 0 without one), out of the same budget
+	const start = Math.max(0, job ? job.cursor : cursor);
+	const channelsDue = job ? !job.batches.length : start === 0;
+	const changed = [...(job?.newItems ?? []), ...(Array.isArray(payload.urls) ? payload.urls : [])];
+	const channelReqs = channelsDue && !dryRun ? planChannels(env, site, siteUrl, feedUrl, changed).slice(0, SUBREQ_BUDGET - 1) : [];
+	if (channelsDue && !dryRun && env.SEND_MENTIONS === "1") await enqueueMentions(env, [...(job?.newItems ?? []), ...(Array.isArray(payload.posts) ? payload.posts : [])]);
 
-	// Slice a batch under the subrequest cap
-	const start = Math.max(0, cursor);
-	const end = Math.min(endpoints.length, start + SUBREQ_BUDGET);
-	const batch = endpoints.slice(start, end);
+	// Slice a batch under the subrequest cap; with a feed, keep ~10% of the budget for extendedPing -> ping retries
+	// Quarantined endpoints are walked over without spending budget, so cursors keep indexing the full list
+	const fallbackReserve = feedUrl ? Math.floor(SUBREQ_BUDGET / 10) : 0;
+	const batchSize = Math.max(1, SUBREQ_BUDGET - fallbackReserve - channelReqs.length);
+	const stats = await readStats(env);
+	const batch: string[] = [];
+	let end = start;
+	let quarantined = 0;
+	while (end < endpoints.length && batch.length < batchSize) {
+		const u = endpoints[end++];
+		if (isQuarantined(stats[u])) quarantined++;
+		else batch.push(u);
+	}
 	const nextCursor = end < endpoints.length ? end : null;
 
-	const method = feedUrl ? "weblogUpdates.extendedPing" : "weblogUpdates.ping";
-	const params = feedUrl ? [siteName, siteUrl, feedUrl] : [siteName, siteUrl];
-	const bodyXml = xmlRpc(method, params);
+	const method: PingMethod = feedUrl ? "weblogUpdates.extendedPing" : "weblogUpdates.ping";
+	const extendedXml = feedUrl ? xmlRpc("weblogUpdates.extendedPing", [siteName, siteUrl, feedUrl]) : null;
+	const pingXml = xmlRpc("weblogUpdates.ping", [siteName, siteUrl]);
+	const caps = ((await env.XMLRPC_PING_KV.get(CAPS_KEY, "json")) as Capabilities | null) ?? {};
+	let capsChanged = false;
+	// Every first attempt is reserved up front: retries, fallbacks and redirect hops only get what's left after that,
+	// so workers retrying early failures can't eat into the first attempts of endpoints later in the batch
+	let subrequests = channelReqs.length + batch.length;
+	const spend = (): boolean => subrequests < SUBREQ_BUDGET && ++subrequests > 0; // take one spare subrequest, if any is left
+	const retryAfter = new WeakMap<PingResult, number>(); // Retry-After (ms) of 429/5xx answers
+	const hosts = new Map<string, { active: number; last: number }>();
 
-	if (!dryRun) {
-		await env.XMLRPC_PING_KV.put(RL_KEY, String(Date.now()), { expirationTtl: HOUR });
-	}
+	// one request => one subrequest per endpoint; keep concurrency modest; redirect hops take spare budget like retries
+	const postOpts: PostOpts = { timeoutMs, maxRedirects, verbose, spend };
 
-	// one request => one subrequest per endpoint; keep concurrency modest
 	/**
-	 * Ping a URL with a timeout
+	 * Ping a URL with this run's options, keeping the answer's Retry-After for withRetry
 	 * @param {string} url The URL to ping
 	 * @param {string} body The request body
-	 * @param {number} ms The timeout in milliseconds
-	 * @returns {Promise<PingResult & VerboseFields>} The ping result
+	 * @returns {Promise<PingResult & VerboseFields>} The ping result, with `redirects` when any were followed
 	 */
-	async function pingWithTimeout(url: string, body: string, ms = timeoutMs): Promise<PingResult & VerboseFields> {
-		const started = Date.now();
-		const ctrl = new AbortController();
-		const t = setTimeout(() => ctrl.abort("timeout"), ms);
+	async function ping(url: string, body: string): Promise<PingResult & VerboseFields> {
+		const { record, retryAfterMs } = await pingWithTimeout(url, body, postOpts);
+		if (retryAfterMs !== null) retryAfter.set(record, retryAfterMs);
+		return record;
+	}
+
+	/**
+	 * Run a request once this host has a free slot and PER_HOST_SPACING_MS passed since its last request
+	 * @param {string} url The request URL (its host is the key)
+	 * @param {() => Promise<T>} fn The request
+	 * @returns {Promise<T>} The request's result
+	 */
+	async function viaHost<T>(url: string, fn: () => Promise<T>): Promise<T> {
+		const key = hostOf(url) ?? url;
+		const h = hosts.get(key) ?? { active: 0, last: 0 };
+		hosts.set(key, h);
+		while (h.active >= hostConcurrency || Date.now() - h.last < hostSpacingMs) {
+			await sleep(h.active >= hostConcurrency ? 50 : hostSpacingMs - (Date.now() - h.last));
+		}
+		h.active++;
+		h.last = Date.now();
 		try {
-			const res = await fetch(url, { method: "POST", headers: { "Content-Type": "text/xml" }, body, redirect: "manual", signal: ctrl.signal });
-			const record: PingResult & VerboseFields = { url, ok: res.ok, status: res.status, ms: Date.now() - started };
-			if (verbose && !res.ok) {
-				try {
-					record.bodySnippet = (await res.text()).slice(0, 200);
-				} catch {}
-			}
-			return record;
-		} catch (e) {
-			return { url, ok: false, status: 0, error: String(e), ms: Date.now() - started };
+			return await fn();
 		} finally {
-			clearTimeout(t);
+			h.active--;
+		}
+	}
+
+	/**
+	 * Send a request, retrying timeouts, network errors, 429 and 5xx with exponential backoff (or Retry-After)
+	 * while retries and SUBREQ_BUDGET last; stamps `attempts` and `errorClass` on the final row
+	 * @param {string} url The request URL
+	 * @param {() => Promise<PingResult & VerboseFields>} send One attempt
+	 * @returns {Promise<PingResult & VerboseFields>} The last attempt's row
+	 */
+	async function withRetry(url: string, send: () => Promise<PingResult & VerboseFields>): Promise<PingResult & VerboseFields> {
+		let attempts = 1;
+		let r = await viaHost(url, send);
+		while (!r.ok && attempts <= retryMax && isRetryable(r)) {
+			const delay = retryAfter.get(r) ?? retryBaseMs * 2 ** (attempts - 1);
+			if (delay > retryMaxDelayMs || !spend()) break;
+			await sleep(delay);
+			attempts++;
+			r = await viaHost(url, send);
 		}
+		r.attempts = attempts;
+		const errorClass = classifyResult(r);
+		if (errorClass) r.errorClass = errorClass;
+		return r;
 	}
 
 	/**
-	 * Run a pool of promises with a limited concurrency
-	 * @param {T[]} items The items to process
-	 * @param {number} size The maximum number of concurrent promises
-	 * @param {(i: T) => Promise<any>} fn The function to call for each item
-	 * @returns {Promise<any[]>} The results of the promises
+	 * Ping one endpoint with the method it is known to support, falling back from extendedPing to ping on a method fault
+	 * @param {string} url The endpoint URL
+	 * @returns {Promise<PingResult & VerboseFields>} The result of the last attempt
 	 */
-	async function runPool<T, R>(items: T[], size: number, fn: (i: T) => Promise<R>): Promise<R[]> {
-		const results: R[] = [];
-		let i = 0;
-		const workers = Array.from({ length: Math.min(size, items.length) }, async () => {
-			while (true) {
-				const idx = i++;
-				if (idx >= items.length) break;
-				results.push(await fn(items[idx]));
+	async function pingEndpoint(url: string): Promise<PingResult & VerboseFields> {
+		const known = caps[url]?.method;
+		if (!extendedXml || known === "weblogUpdates.ping") {
+			return { ...(await withRetry(url, () => ping(url, pingXml))), method: "weblogUpdates.ping" };
+		}
+
+		const first = await withRetry(url, () => ping(url, extendedXml));
+		if (!isMethodFault(first) || !spend()) {
+			if (first.ok && !known) {
+				caps[url] = { method: "weblogUpdates.extendedPing", learnedAt: Date.now(), source: "ping" };
+				capsChanged = true;
 			}
-		});
-		await Promise.all(workers);
-		return results;
+			return { ...first, method: "weblogUpdates.extendedPing" };
+		}
+
+		const retry = await withRetry(url, () => ping(url, pingXml));
+		// Only remember "ping" when the retry got past the method check (accepted, or refused for another reason)
+		if (retry.ok || (retry.faultCode !== undefined && !isMethodFault(retry))) {
+			caps[url] = { method: "weblogUpdates.ping", learnedAt: Date.now(), source: "fallback" };
+			capsChanged = true;
+		}
+		return { ...retry, method: "weblogUpdates.ping", fallback: true, attempts: (first.attempts ?? 1) + (retry.attempts ?? 1) };
 	}
 
-	let summary = await runPool(batch, MAX_CONCURRENCY, (u) => pingWithTimeout(u, bodyXml, timeoutMs));
+	/**
+	 * Send one IndexNow / WebSub request; any 2xx counts as accepted
+	 * @param {ChannelRequest} req The planned request
+	 * @returns {Promise<PingResult & VerboseFields>} The result row
+	 */
+	async function sendChannel(req: ChannelRequest): Promise<PingResult & VerboseFields> {
+		const started = Date.now();
+		const ctrl = new AbortController();
+		const t = setTimeout(() => ctrl.abort("timeout"), timeoutMs);
+		try {
+			const res = await fetch(req.url, { ...req.init, redirect: "manual", signal: ctrl.signal });
+			const record: PingResult & VerboseFields = { url: req.url, ok: res.ok, status: res.status, channel: req.channel, ms: Date.now() - started };
+			if (verbose && !res.ok) record.bodySnippet = (await res.text().catch(() => "")).slice(0, 200);
+			else await res.body?.cancel();
+			const wait = parseRetryAfter(res.headers.get("Retry-After"));
+			if (wait !== null) retryAfter.set(record, wait);
+			return record;
+		} catch (e) {
+			return { url: req.url, ok: false, status: 0, error: String(e), channel: req.channel, ms: Date.now() - started };
+		} finally {
+			clearTimeout(t);
+		}
+	}
+
+	// Spread same-host endpoints apart so the pool's slots aren't all parked on one host's gate
+	const results = await runPool(interleaveByHost(batch), MAX_CONCURRENCY, pingEndpoint);
+	if (capsChanged && !dryRun) await env.XMLRPC_PING_KV.put(CAPS_KEY, JSON.stringify(caps));
+	// Channel rows ride along with the ping rows everywhere except the per-endpoint stats
+	const channelResults = await runPool(channelReqs, MAX_CONCURRENCY, (req) => withRetry(req.url, () => sendChannel(req)));
+	const batchResults = [...results, ...channelResults];
+	let summary = batchResults;
 	if (only === "fail") summary = summary.filter((r: PingResult) => !r.ok);
 	if (only === "success") summary = summary.filter((r: PingResult) => r.ok);
 
@@ -336,15 +915,64 @@ async function doPing(env: RuntimeEnv, payload: Partial<PingPayload>, opts: Ping
 		batchStart: start,
 		batchEnd: end,
 		batchCount: batch.length,
+		quarantined,
 		ok: summary.filter((r: PingResult) => r.ok).length,
 		fail: summary.filter((r: PingResult) => !r.ok).length,
 	};
 
-	// Save only non-dry runs (as before)
-	if (!dryRun) {
-		await env.XMLRPC_PING_KV.put("xmlrpc:last-result", JSON.stringify({ time: Date.now(), result: { siteName, siteUrl, feedUrl, summary } }), { expirationTtl: 7 * 24 * 3600 });
+	const quarantinedNow = dryRun ? [] : await recordStats(env, stats, results, numberOr(env.QUARANTINE_AFTER, 5), numberOr(env.QUARANTINE_REPROBE_HOURS, 24) * HOUR * 1000);
+	if (!dryRun) await recordRedirects(env, results);
+
+	// Record the batch on the job, so the next invocation resumes from nextCursor
+	if (job) {
+		const ok = batchResults.filter((r) => r.ok).length;
+		job.batches.push({ start, end, ok, fail: batchResults.length - ok, at: Date.now() });
+		job.results = [...job.results, ...batchResults];
+		job.cursor = nextCursor ?? end;
+		job.total = endpoints.length;
+		job.endpoints = endpoints;
+		job.updatedAt = Date.now();
+		if (nextCursor === null) job.finishedAt = job.updatedAt;
+		await env.XMLRPC_PING_KV.put(keys.job, JSON.stringify(job), { expirationTtl: 7 * 24 * 3600 });
 	}
 
+	// One snapshot shape for both keys: real runs -> "last-result" (everything the job pinged so far), dry runs -> "last-dry"
+	const allResults = job ? job.results : batchResults;
+	const runId = job?.id ?? crypto.randomUUID();
+	const latest = job?.deployId ? { id: job.deployId, newItems: job.newItems } : undefined;
+	const snapshot: LastResultKV = { time: Date.now(), latest, runId, result: { status: "done", method, siteName, siteUrl, feedUrl, summary: allResults } };
+	if (!dryRun) await env.XMLRPC_PING_KV.put(keys.lastResult, JSON.stringify(snapshot), { expirationTtl: 7 * 24 * 3600 });
+	else await env.XMLRPC_PING_KV.put(keys.lastDry, JSON.stringify(snapshot), { expirationTtl: 24 * 3600 });
+
+	const runOk = allResults.filter((r) => r.ok).length;
+	const startedAt = job?.startedAt ?? runStarted;
+	const finishedAt = !job || job.finishedAt ? Date.now() : null;
+	const run: RunRecord = {
+		id: runId,
+		trigger: dryRun ? "dry" : (job?.trigger ?? "manual"),
+		deployId: job?.deployId ?? null,
+		newItems: job?.newItems,
+		siteId: site.id,
+		site: { name: siteName, url: siteUrl, feed: feedUrl },
+		method,
+		status: finishedAt ? "done" : "running",
+		startedAt,
+		finishedAt,
+		durationMs: (finishedAt ?? Date.now()) - startedAt,
+		totals: { total: allResults.length, ok: runOk, fail: allResults.length - runOk },
+		results: allResults,
+	};
+	await recordRun(env, site, run);
+	if (!dryRun) await queueNotifications(env, runEvents(env, site, run, quarantinedNow));
+	await recordMetrics(env, (m) => {
+		if (finishedAt) bump(m.runs, `${site.id} ${run.trigger} done`);
+		bump(m.subrequests, site.id, subrequests);
+		m.lastBatch[site.id] = { used: subrequests, budget: SUBREQ_BUDGET, at: Date.now() };
+		if (dryRun) return;
+		for (const r of results) if (typeof r.ms === "number") observeLatency(m, r.url, r.ms);
+		if (results.some((r) => r.ok)) m.lastSuccessAt[site.id] = Date.now();
+	});
+
 	return {
 		status: "done",
 		dryRun,
@@ -356,149 +984,3905 @@ async function doPing(env: RuntimeEnv, payload: Partial<PingPayload>, opts: Ping
 		summary,
 		nextCursor, // <— tell caller if there’s more to do
 		subrequestBudget: SUBREQ_BUDGET,
+		subrequestsUsed: subrequests,
 		concurrencyUsed: MAX_CONCURRENCY,
+		job: job ? jobProgress(job) : undefined,
 	};
 }
 
 /**
- * Convert an array of ping results to CSV format
- * @param {Array<PingResult & VerboseFields>} rows The array of ping results
- * @returns {string} The CSV string
+ * Resolve the endpoint list: the payload's (a caller asking for specific endpoints gets them), then the site's own
+ * list, then KV, then PING_ENDPOINTS, then the baked-in fallback (also used when PING_ENDPOINTS isn't a JSON array;
+ * /diagnostics reports that)
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @param {Partial<PingPayload>} payload The ping payload
+ * @returns {Promise<{ urls: string[]; source: EndpointSource }>} The endpoint URLs and where they came from
  */
-function toCsv(rows: Array<PingResult & VerboseFields>): string {
-	const esc = (s: unknown) =>
-		`"${String(s ?? "")
-			.replace(/\r?\n/g, " ")
-			.replace(/"/g, '""')}"`;
-	const header = "url,ok,status,ms,error,bodySnippet";
-	return [header, ...rows.map((r) => [esc(r.url), esc(r.ok), esc(r.status), esc(r.ms ?? ""), esc(r.error ?? ""), esc(r.bodySnippet ?? "")].join(","))].join("\r\n");
+async function resolveEndpoints(env: RuntimeEnv, site: SiteConfig, payload: Partial<PingPayload>): Promise<{ urls: string[]; source: EndpointSource }> {
+	if (Array.isArray(payload.endpoints) && payload.endpoints.length) return { urls: payload.endpoints, source: "payload" };
+	if (site.endpoints?.length) return { urls: site.endpoints, source: "site" };
+	const kvList = await readEndpointRecords(env);
+	// A seeded list with everything disabled means "ping nothing", not "fall back"
+	if (kvList.length) {
+		// Legacy lists may hold http/https or trailing-slash duplicates: ping each service once
+		const seen = new Set<string>();
+		const urls = kvList
+			.filter((e) => !e.disabled)
+			.map((e) => normalizeEndpointUrl(e.url))
+			.filter((u): u is string => !!u && !seen.has(endpointKey(u)) && !!seen.add(endpointKey(u)));
+		return { urls, source: "kv" };
+	}
+	const fromEnv = parseStringList(env.PING_ENDPOINTS);
+	return fromEnv ? { urls: fromEnv, source: "env" } : { urls: minimal_endpoints, source: "minimal_endpoints" };
 }
 
-/**
- * Convert an array of ping results to NDJSON format
- * @param {Array<PingResult & VerboseFields>} rows The array of ping results
- * @returns {string} The NDJSON string
- */
-function toNdjson(rows: Array<PingResult & VerboseFields>): string {
-	return rows.map((r) => JSON.stringify(r)).join("\n");
-}
+// "method foo not found", "Method not supported", "unknown method", "no such method" — but not "Unknown error" or "invalid method parameters"
+const METHOD_FAULT_RE = /\bmethod\b(?!\s+param)[^;\n]*\b(not (found|supported|implemented|defined)|does ?n[o']t exist|unknown|unsupported)\b|\b(unknown|unsupported|undefined|no such) (rpc |xml-?rpc )?method\b(?! param)/i;
 
 /**
- * Generate XML-RPC request body
- * @param {string} method The XML-RPC method name
- * @param {string[]} params The method parameters
- * @returns {string} The XML-RPC request body
+ * Whether a result is a "this method doesn't exist here" fault, worth retrying with weblogUpdates.ping.
+ * Only <fault> answers count: a flerror=1 message is the service refusing the ping itself.
+ * @param {PingResult} r The ping result
+ * @returns {boolean} True for faultCode -32601 and method-not-found style fault strings
  */
-function xmlRpc(method: string, params: string[]): string {
-	const paramXml = params.map((p) => `<param><value><string>${escapeXml(String(p))}</string></value></param>`).join("");
-	return `<?xml version="1.0"?>
-<methodCall>
-  <methodName>${method}</methodName>
-  <params>${paramXml}</params>
-</methodCall>`;
+function isMethodFault(r: PingResult): boolean {
+	if (r.faultCode === -32601) return true; // spec: "requested method not found"
+	return r.faultString !== undefined && METHOD_FAULT_RE.test(r.faultString);
 }
 
+// --- Redirects ---
+
+const REPOST_STATUSES = new Set([301, 302, 307, 308]);
+
 /**
- * Escape XML special characters
- * @param {string} s The string to escape
- * @returns {string} The escaped string
+ * Where to re-POST a ping after a redirect. XML-RPC pings are idempotent, so 301/302 are treated like 307/308
+ * (the body is sent again instead of downgrading to GET); 303 ("see other") asks for a GET and is not followed,
+ * nor are non-http(s) targets or https -> http downgrades.
+ * @param {string} from The URL that answered
+ * @param {Response} res Its response
+ * @returns {string | null} The absolute target, or null when the response is final
  */
-function escapeXml(s: string): string {
-	return s.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;").replaceAll("'", "&apos;");
+function nextRedirect(from: string, res: Response): string | null {
+	if (!REPOST_STATUSES.has(res.status)) return null;
+	const location = res.headers.get("Location");
+	if (!location) return null;
+	let target: URL;
+	try {
+		target = new URL(location, from);
+	} catch {
+		return null;
+	}
+	if (target.protocol !== "https:" && target.protocol !== "http:") return null;
+	if (target.protocol === "http:" && from.startsWith("https:")) return null;
+	target.hash = "";
+	return target.toString();
 }
 
+// How pingWithTimeout sends: spend() takes one subrequest for a redirect hop, false once the budget is gone
+type PostOpts = { timeoutMs: number; maxRedirects: number; verbose: boolean; spend: () => boolean };
+
 /**
- * Safely parse JSON from a request
- * @param {Request} req The request object
- * @returns {Promise<object>} The parsed JSON object or an empty object
+ * POST an XML-RPC body with a timeout, re-POSTing it across up to maxRedirects redirects (see nextRedirect),
+ * and read the answer as a ping response
+ * @param {string} url The URL to ping
+ * @param {string} body The request body
+ * @param {PostOpts} o Timeout (covers the whole redirect chain), redirect limit and budget
+ * @returns {Promise<{ record: PingResult & VerboseFields; text: string; retryAfterMs: number | null }>} The row (with `redirects` when any were followed), the response body and its Retry-After
  */
-async function safeJson(req: Request): Promise<object> {
+async function pingWithTimeout(url: string, body: string, o: PostOpts): Promise<{ record: PingResult & VerboseFields; text: string; retryAfterMs: number | null }> {
+	const started = Date.now();
+	const ctrl = new AbortController();
+	const t = setTimeout(() => ctrl.abort("timeout"), o.timeoutMs);
+	const redirects: RedirectHop[] = [];
 	try {
-		return await req.json();
-	} catch {
-		return {};
+		const init: RequestInit = { method: "POST", headers: { "Content-Type": "text/xml" }, body, redirect: "manual", signal: ctrl.signal };
+		let res = await fetch(url, init);
+		let next = nextRedirect(url, res);
+		// Stop at loops, at maxRedirects and when the budget runs dry: the 3xx then stands as the result
+		while (next && next !== url && !redirects.some((h) => h.url === next) && redirects.length < o.maxRedirects && o.spend()) {
+			await res.body?.cancel();
+			redirects.push({ status: res.status, url: next });
+			res = await fetch(next, init);
+			next = nextRedirect(next, res);
+		}
+		const retryAfterMs = parseRetryAfter(res.headers.get("Retry-After"));
+		let text = "";
+		try {
+			text = await res.text();
+		} catch {}
+
+		// HTTP 200 alone is not enough: many services answer 200 with a <fault> or flerror=1
+		const outcome = interpretPingResponse(text);
+		const record: PingResult & VerboseFields = { url, ok: res.ok && outcome.accepted, status: res.status, ms: Date.now() - started };
+		if (outcome.faultCode !== undefined) record.faultCode = outcome.faultCode;
+		if (outcome.faultString) record.faultString = outcome.faultString;
+		if (outcome.serviceMessage) record.serviceMessage = outcome.serviceMessage;
+		if (res.ok && outcome.error) record.error = outcome.error;
+		if (o.verbose && !record.ok) record.bodySnippet = text.slice(0, 200);
+		if (redirects.length) record.redirects = redirects;
+		return { record, text, retryAfterMs };
+	} catch (e) {
+		const record: PingResult & VerboseFields = { url, ok: false, status: 0, error: String(e), ms: Date.now() - started };
+		if (redirects.length) record.redirects = redirects;
+		return { record, text: "", retryAfterMs: null };
+	} finally {
+		clearTimeout(t);
 	}
 }
 
 /**
- * No operation performed
- * @returns {Promise<void>} The scheduled event handler
+ * Remember where each pinged endpoint redirected to (and forget endpoints that no longer redirect)
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {PingResult[]} results The batch's ping rows
+ * @returns {Promise<void>}
  */
-async function noop(): Promise<void> {
-	// No operation performed
+async function recordRedirects(env: RuntimeEnv, results: PingResult[]): Promise<void> {
+	const map = ((await env.XMLRPC_PING_KV.get(REDIRECTS_KEY, "json")) as Record<string, RedirectInfo> | null) ?? {};
+	let changed = false;
+	for (const r of results) {
+		const hops = r.redirects ?? [];
+		if (!hops.length) {
+			// Only a real answer proves the redirect is gone; a network error says nothing
+			if (map[r.url] && r.status !== 0) changed = delete map[r.url];
+			continue;
+		}
+		map[r.url] = { to: hops[hops.length - 1].url, permanent: hops.every((h) => h.status === 301 || h.status === 308), ok: r.ok, at: Date.now() };
+		changed = true;
+	}
+	if (changed) await env.XMLRPC_PING_KV.put(REDIRECTS_KEY, JSON.stringify(map));
 }
 
-// --- Detectors ---
-
-// Default (no changes to site repo): latest successful commit on a branch
 /**
- * Get the latest commit SHA from a GitHub repository branch
- * @param {RuntimeEnv} env The environment variables
- * @returns {Promise<{ id: string } | null>} The latest commit SHA or null
+ * Canonical URL suggestions for `xmlrpc:endpoints` (caller already authorized).
+ * Only chains made entirely of permanent redirects (301/308) whose target accepted the ping are applied;
+ * temporary or failing ones are reported for review.
+ * - GET  /endpoints/canonical              → `{ suggestions: [{ from, to, permanent, ok, at, action }] }`
+ * - POST /endpoints/canonical              → rewrite the list in place (replace, or drop when the target is already listed)
+ * @param {Request} request The incoming request
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<Response>} The JSON response
  */
-async function latestGithubCommit(env: RuntimeEnv): Promise<{ id: string } | null> {
-	const repo = env.GITHUB_REPO;
-	if (!repo) return null;
-	const branch = env.GITHUB_BRANCH || "main";
-	const r = await fetch(`https://api.github.com/repos/${repo}/branches/${branch}`, {
-		headers: env.GITHUB_TOKEN ? { "Authorization": `Bearer ${env.GITHUB_TOKEN}`, "User-Agent": "xmlrpc-pinger" } : { "User-Agent": "xmlrpc-pinger" },
+async function handleCanonicalApi(request: Request, env: RuntimeEnv): Promise<Response> {
+	const headers = { "Cache-Control": "no-store" };
+	if (request.method !== "GET" && request.method !== "POST") return new Response("Method Not Allowed", { status: 405, headers: { Allow: "GET, POST" } });
+	const list = await readEndpointRecords(env);
+	const map = ((await env.XMLRPC_PING_KV.get(REDIRECTS_KEY, "json")) as Record<string, RedirectInfo> | null) ?? {};
+	// Redirects are recorded under the normalized URL that was pinged; legacy entries may be spelled differently,
+	// and entries that aren't URLs at all are left alone
+	const normalized = new Map<EndpointRecord, string>();
+	for (const e of list) {
+		const norm = normalizeEndpointUrl(e.url);
+		if (norm) normalized.set(e, norm);
+	}
+	const listed = new Set([...normalized.values()].map(endpointKey));
+
+	const suggestions = list.flatMap((e) => {
+		const norm = normalized.get(e);
+		const info = norm ? (map[norm] ?? map[e.url]) : undefined;
+		if (!norm || !info || endpointKey(info.to) === endpointKey(norm)) return [];
+		let action: "replace" | "remove" | "review" = "review";
+		if (info.permanent && info.ok) action = listed.has(endpointKey(info.to)) ? "remove" : "replace";
+		return [{ from: e.url, ...info, action }];
 	});
-	if (!r.ok) return null;
-	const j = (await r.json()) as GitHubBranchInfo;
-	const sha = j?.commit?.sha;
-	return sha ? { id: sha } : null;
+	if (request.method === "GET") return Response.json({ total: suggestions.length, suggestions }, { headers });
+
+	const apply = new Map(suggestions.filter((s) => s.action !== "review").map((s) => [endpointKey(normalizeEndpointUrl(s.from) ?? s.from), s]));
+	const seen = new Set<string>();
+	const next: EndpointRecord[] = [];
+	const replaced: Array<{ from: string; to: string }> = [];
+	const removed: string[] = [];
+	for (const e of list) {
+		const norm = normalized.get(e);
+		if (!norm) {
+			next.push(e);
+			continue;
+		}
+		const s = apply.get(endpointKey(norm));
+		const url = s?.action === "replace" ? s.to : e.url;
+		// Two stale entries can point at the same new URL: keep the first
+		if (seen.has(endpointKey(s?.action === "replace" ? s.to : norm))) {
+			removed.push(e.url);
+			continue;
+		}
+		seen.add(endpointKey(s?.action === "replace" ? s.to : norm));
+		if (s?.action === "remove") {
+			removed.push(e.url);
+			continue;
+		}
+		if (s) replaced.push({ from: e.url, to: url });
+		next.push(url === e.url ? e : { ...e, url });
+	}
+	if (replaced.length || removed.length) {
+		await storage(env).setEndpoints(next);
+		await appendAudit(env, "endpoints.canonicalize", { replaced, removed });
+	}
+	return Response.json({ replaced, removed, total: next.length }, { headers });
 }
 
-// Optional (tighter to actual Pages deploys): latest deploy id
 /**
- * Get the latest deploy ID from a Cloudflare Pages project
+ * Probe endpoints with system.listMethods and record which ping method each one supports (learned only from a
+ * successful listMethods answer). No pings are sent, so this skips the 1h lock; one subrequest per endpoint, batched
+ * like doPing, which also walks over quarantined endpoints.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site whose endpoint list is probed
+ * @param {Partial<PingPayload>} payload The payload (only `endpoints` is used, over the configured lists)
+ * @param {PingOpts} opts Only `limit` and `cursor` are used
+ * @returns {Promise<DoPingResult>} One row per endpoint; `method` is set when a ping method was found
+ */
+async function probeMethods(env: RuntimeEnv, site: SiteConfig, payload: Partial<PingPayload>, opts: PingOpts = {}): Promise<DoPingResult> {
+	const { limit = 0, cursor = 0, timeoutMs = 10_000 } = opts;
+	const SUBREQ_BUDGET = Math.max(1, Math.min(Number(env.SUBREQ_BUDGET ?? 45), 1000));
+	const MAX_CONCURRENCY = Math.max(1, Math.min(Number(env.PING_CONCURRENCY ?? 6), 6));
+	const maxRedirects = Math.max(0, Math.min(numberOr(env.MAX_REDIRECTS, 3), 10));
+
+	let endpoints = (await resolveEndpoints(env, site, payload)).urls;
+	if (limit > 0) endpoints = endpoints.slice(0, limit);
+	const start = Math.max(0, cursor);
+	const stats = await readStats(env);
+	const batch: string[] = [];
+	let end = start;
+	let quarantined = 0;
+	while (end < endpoints.length && batch.length < SUBREQ_BUDGET) {
+		const u = endpoints[end++];
+		if (isQuarantined(stats[u])) quarantined++;
+		else batch.push(u);
+	}
+
+	const caps = ((await env.XMLRPC_PING_KV.get(CAPS_KEY, "json")) as Capabilities | null) ?? {};
+	let capsChanged = false;
+	const body = xmlRpc("system.listMethods", []);
+	// Redirects are followed only with budget the batch left over, like doPing
+	let subrequests = batch.length;
+	const postOpts: PostOpts = { timeoutMs, maxRedirects, verbose: false, spend: () => subrequests < SUBREQ_BUDGET && ++subrequests > 0 };
+
+	const summary = await runPool(batch, MAX_CONCURRENCY, async (url): Promise<PingResult> => {
+		const { record, text } = await pingWithTimeout(url, body, postOpts);
+		if (record.status === 0) return { url, ok: false, status: 0, error: record.error };
+		const parsed = parseXmlRpcResponse(text);
+		const methods = Array.isArray(parsed?.params[0]) ? (parsed.params[0] as XmlRpcValue[]).map(String) : [];
+		const found: PingMethod | undefined = methods.includes("weblogUpdates.extendedPing") ? "weblogUpdates.extendedPing" : methods.includes("weblogUpdates.ping") ? "weblogUpdates.ping" : undefined;
+		// Only an HTTP 2xx methodResponse without a fault says what the server supports
+		const ok = !!found && record.status >= 200 && record.status < 300 && !parsed?.fault;
+		if (ok) {
+			caps[url] = { method: found, learnedAt: Date.now(), source: "probe" };
+			capsChanged = true;
+		}
+		const row: PingResult = { url, ok, status: record.status, method: ok ? found : undefined };
+		if (parsed?.fault) {
+			row.faultCode = parsed.fault.code;
+			row.faultString = parsed.fault.string;
+		} else if (!found) {
+			row.error = parsed ? "no weblogUpdates.* method listed" : "not an XML-RPC response";
+		} else if (!ok) {
+			row.error = `HTTP ${record.status}`;
+		}
+		if (record.redirects) row.redirects = record.redirects;
+		return row;
+	});
+
+	if (capsChanged) await env.XMLRPC_PING_KV.put(CAPS_KEY, JSON.stringify(caps));
+	const ok = summary.filter((r) => r.ok).length;
+	return {
+		status: "done",
+		dryRun: true,
+		method: "system.listMethods",
+		totals: { total: endpoints.length, ok, fail: summary.length - ok, batchStart: start, batchEnd: end, batchCount: batch.length, quarantined },
+		summary,
+		nextCursor: end < endpoints.length ? end : null,
+		subrequestBudget: SUBREQ_BUDGET,
+		concurrencyUsed: MAX_CONCURRENCY,
+	};
+}
+
+// --- Notification channels (IndexNow, WebSub) ---
+
+const INDEXNOW_MAX_URLS = 10_000; // protocol limit per submission
+const INDEXNOW_KEY_RE = /^[A-Za-z0-9-]{8,128}$/;
+
+// One planned IndexNow / WebSub request
+type ChannelRequest = { channel: ChannelName; url: string; init: RequestInit };
+
+/**
+ * Host of a URL, or null when it doesn't parse
+ * @param {string} u The URL
+ * @returns {string | null} The host
+ */
+function hostOf(u: string): string | null {
+	try {
+		return new URL(u).host;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Where IndexNow looks for a site's key file: `indexNowKeyLocation`, or https://<site host>/<key>.txt.
+ * The Worker's own /<key>.txt only counts when the Worker is routed on the site's host.
+ * @param {SiteConfig} site The site (key, key location)
+ * @param {string} siteUrl The site URL being pinged
+ * @returns {string | null} The key file URL, or null without a key or a parseable site URL
+ */
+function indexNowKeyUrl(site: SiteConfig, siteUrl: string): string | null {
+	const host = hostOf(siteUrl);
+	if (!site.indexNowKey || !host) return null;
+	return site.indexNowKeyLocation || `https://${host}/${site.indexNowKey}.txt`;
+}
+
+/**
+ * Plan a run's IndexNow and WebSub requests.
+ * IndexNow gets the site URL plus the changed URLs on the same host, INDEXNOW_MAX_URLS per request; it's skipped when
+ * the key location is on another host, which IndexNow would refuse. WebSub gets one `hub.mode=publish` for the feed per hub.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site (IndexNow key, hubs)
+ * @param {string} siteUrl The site URL being pinged
+ * @param {string | null} feedUrl The feed URL being pinged
+ * @param {string[]} changed Changed page URLs (new feed items, payload `urls`)
+ * @returns {ChannelRequest[]} The requests, IndexNow first
+ */
+function planChannels(env: RuntimeEnv, site: SiteConfig, siteUrl: string, feedUrl: string | null, changed: string[]): ChannelRequest[] {
+	const reqs: ChannelRequest[] = [];
+	const key = site.indexNowKey;
+	const host = hostOf(siteUrl);
+	const keyUrl = indexNowKeyUrl(site, siteUrl);
+	if (key && INDEXNOW_KEY_RE.test(key) && host && keyUrl && hostOf(keyUrl) === host) {
+		const endpoint = env.INDEXNOW_ENDPOINT || "https://api.indexnow.org/indexnow";
+		const urls = [...new Set([siteUrl, ...changed])].filter((u) => hostOf(u) === host);
+		for (let i = 0; i < urls.length; i += INDEXNOW_MAX_URLS) {
+			const body = JSON.stringify({ host, key, keyLocation: site.indexNowKeyLocation, urlList: urls.slice(i, i + INDEXNOW_MAX_URLS) });
+			reqs.push({ channel: "indexnow", url: endpoint, init: { method: "POST", headers: { "Content-Type": "application/json; charset=utf-8" }, body } });
+		}
+	}
+	if (feedUrl) {
+		const body = new URLSearchParams({ "hub.mode": "publish", "hub.url": feedUrl }).toString();
+		for (const hub of site.websubHubs ?? []) reqs.push({ channel: "websub", url: hub, init: { method: "POST", headers: { "Content-Type": "application/x-www-form-urlencoded" }, body } });
+	}
+	return reqs;
+}
+
+// --- Retries & per-host politeness ---
+
+/**
+ * Whether a failed attempt is worth repeating: timeouts, network errors, 429 and 5xx (not faults or other 4xx)
+ * @param {PingResult} r The failed result
+ * @returns {boolean} True when a retry may succeed
+ */
+function isRetryable(r: PingResult): boolean {
+	const c = classifyResult(r);
+	return c === "timeout" || c === "network" || c === "http-5xx" || r.status === 429;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds, or an HTTP date)
+ * @param {string | null} header The header value
+ * @returns {number | null} The delay in ms, or null when absent/invalid
+ */
+function parseRetryAfter(header: string | null): number | null {
+	if (!header) return null;
+	const secs = Number(header);
+	if (header.trim() !== "" && Number.isFinite(secs)) return Math.max(0, secs * 1000);
+	const at = Date.parse(header);
+	return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+}
+
+/**
+ * Wait
+ * @param {number} ms Milliseconds
+ * @returns {Promise<void>}
+ */
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+}
+
+/**
+ * Reorder URLs round-robin by host (a, b, c, a, b, a …), keeping each host's own order
+ * @param {string[]} urls The URLs
+ * @returns {string[]} The same URLs, interleaved
+ */
+function interleaveByHost(urls: string[]): string[] {
+	const groups = new Map<string, string[]>();
+	for (const u of urls) {
+		const key = hostOf(u) ?? u;
+		groups.set(key, [...(groups.get(key) ?? []), u]);
+	}
+	const out: string[] = [];
+	for (let i = 0; out.length < urls.length; i++) for (const g of groups.values()) if (i < g.length) out.push(g[i]);
+	return out;
+}
+
+/**
+ * Run a pool of promises with a limited concurrency
+ * @param {T[]} items The items to process
+ * @param {number} size The maximum number of concurrent promises
+ * @param {(i: T) => Promise<R>} fn The function to call for each item
+ * @returns {Promise<R[]>} The results, in completion order
+ */
+async function runPool<T, R>(items: T[], size: number, fn: (i: T) => Promise<R>): Promise<R[]> {
+	const results: R[] = [];
+	let i = 0;
+	const workers = Array.from({ length: Math.min(size, items.length) }, async () => {
+		while (true) {
+			const idx = i++;
+			if (idx >= items.length) break;
+			results.push(await fn(items[idx]));
+		}
+	});
+	await Promise.all(workers);
+	return results;
+}
+
+// --- Reliability & quarantine ---
+
+/**
+ * Parse a numeric env knob, falling back when unset or not a number
+ * @param {string | undefined} raw The env string
+ * @param {number} fallback The default
+ * @returns {number} The parsed value
+ */
+function numberOr(raw: string | undefined, fallback: number): number {
+	const n = Number(raw);
+	return raw !== undefined && raw !== "" && Number.isFinite(n) ? n : fallback;
+}
+
+/**
+ * Read the per-endpoint stats map
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<Record<string, EndpointStats>>} Stats keyed by endpoint URL
+ */
+async function readStats(env: RuntimeEnv): Promise<Record<string, EndpointStats>> {
+	return storage(env).getStats();
+}
+
+/**
+ * Whether an endpoint is quarantined and not yet due for a re-probe
+ * @param {EndpointStats | undefined} st The endpoint stats
+ * @param {number} now The current time (ms)
+ * @returns {boolean} True when the endpoint should be skipped
+ */
+function isQuarantined(st: EndpointStats | undefined, now = Date.now()): boolean {
+	return !!st?.quarantinedAt && (st.nextProbeAt ?? 0) > now;
+}
+
+const TIMEOUT_RE = /timeout|abort/i;
+
+/**
+ * Classify a failed result for stats and reporting
+ * @param {PingResult} r The ping result
+ * @returns {ErrorClass | null} The error class, or null for a success
+ */
+function classifyResult(r: PingResult): ErrorClass | null {
+	if (r.ok) return null;
+	if (r.status === 0) return TIMEOUT_RE.test(r.error ?? "") ? "timeout" : "network";
+	if (r.status >= 300 && r.status < 400) return "redirect";
+	if (r.status >= 400 && r.status < 500) return "http-4xx";
+	if (r.status >= 500) return "http-5xx";
+	if (r.faultCode !== undefined || r.faultString) return "fault";
+	if (r.serviceMessage !== undefined) return "flerror";
+	return "invalid-response";
+}
+
+/**
+ * Fold a batch of results into the stats map and persist it; quarantines after `after` consecutive failures
+ * and releases an endpoint on its first success.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {Record<string, EndpointStats>} stats The stats map read before the batch (mutated)
+ * @param {PingResult[]} results The batch results
+ * @param {number} after Consecutive failures before quarantine
+ * @param {number} reprobeMs Delay between re-probes of a quarantined endpoint
+ * @returns {Promise<string[]>} The endpoints this batch newly quarantined
+ */
+async function recordStats(env: RuntimeEnv, stats: Record<string, EndpointStats>, results: Array<PingResult & VerboseFields>, after: number, reprobeMs: number): Promise<string[]> {
+	if (!results.length) return [];
+	const now = Date.now();
+	const quarantined: string[] = [];
+	for (const r of results) {
+		const st: EndpointStats = stats[r.url] ?? { runs: 0, successes: 0, consecutiveFailures: 0, latencies: [], lastAttemptAt: 0, lastSuccessAt: null, lastErrorClass: null, quarantinedAt: null, nextProbeAt: null };
+		st.runs++;
+		st.lastAttemptAt = now;
+		if (typeof r.ms === "number") st.latencies = [...st.latencies, r.ms].slice(-LATENCY_SAMPLES);
+		if (r.ok) {
+			st.successes++;
+			st.consecutiveFailures = 0;
+			st.lastSuccessAt = now;
+			st.quarantinedAt = null;
+			st.nextProbeAt = null;
+		} else {
+			st.consecutiveFailures++;
+			st.lastErrorClass = classifyResult(r);
+			if (st.quarantinedAt || st.consecutiveFailures >= after) {
+				if (!st.quarantinedAt) quarantined.push(r.url);
+				st.quarantinedAt ??= now;
+				st.nextProbeAt = now + reprobeMs;
+			}
+		}
+		stats[r.url] = st;
+	}
+	await storage(env).putStats(
+		stats,
+		results.map((r) => r.url),
+	);
+	return quarantined;
+}
+
+/**
+ * Nearest-rank percentile
+ * @param {number[]} values The samples
+ * @param {number} p The percentile (0-100)
+ * @returns {number | null} The percentile, or null without samples
+ */
+function percentile(values: number[], p: number): number | null {
+	if (!values.length) return null;
+	const sorted = [...values].sort((a, b) => a - b);
+	return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+/**
+ * Summarize raw stats for /health
+ * @param {string} url The endpoint URL
+ * @param {EndpointStats} st The raw stats
+ * @returns {EndpointReliability} The summary
+ */
+function toReliability(url: string, st: EndpointStats): EndpointReliability {
+	return {
+		url,
+		runs: st.runs,
+		successRate: st.runs ? st.successes / st.runs : 0,
+		consecutiveFailures: st.consecutiveFailures,
+		p50: percentile(st.latencies, 50),
+		p95: percentile(st.latencies, 95),
+		lastSuccessAt: st.lastSuccessAt,
+		lastErrorClass: st.lastErrorClass,
+		quarantinedAt: st.quarantinedAt,
+		nextProbeAt: st.nextProbeAt,
+	};
+}
+
+// --- API keys & request signing ---
+
+const API_KEYS_KEY = "xmlrpc:api-keys"; // key id -> ApiKeyRecord
+const NONCE_PREFIX = "xmlrpc:nonce:"; // + key id + ":" + nonce, kept while the signature's timestamp is acceptable
+const API_SCOPES: ApiScope[] = ["trigger", "dry-run", "read-health", "manage-endpoints"];
+const SIGNATURE_MAX_SKEW_SECONDS = 300;
+const API_KEY_RE = /^xrp_([0-9a-f]{12})_([0-9a-f]{64})$/;
+const NONCE_RE = /^[\w-]{16,128}$/;
+const UNIX_TS_RE = /^\d{1,12}$/;
+
+/**
+ * Check the master bearer secret (constant-time)
+ * @param {Request} request The incoming request
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {boolean} True when the Authorization header carries XMLRPC_PING_SECRET
+ */
+function isAuthorized(request: Request, env: RuntimeEnv): boolean {
+	const auth = request.headers.get("authorization");
+	const ok = !!auth && !!env.XMLRPC_PING_SECRET && timingSafeEqual(auth, `Bearer ${env.XMLRPC_PING_SECRET}`);
+	if (ok) requestCallers.set(request, "master");
+	return ok;
+}
+
+/**
+ * Check a request's credentials against a scope. Accepted, in order: the master secret (every scope),
+ * a signed request (see verifySignedRequest), or an API key as `Authorization: Bearer xrp_…`.
+ * @param {Request} request The incoming request
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {ApiScope} scope The scope the route needs
+ * @returns {Promise<Response | null>} null when allowed, otherwise the 401 / 403 response
+ */
+async function requireScope(request: Request, env: RuntimeEnv, scope: ApiScope): Promise<Response | null> {
+	if (isAuthorized(request, env)) return null;
+	const auth = request.headers.get("authorization") ?? "";
+	const key = request.headers.has("X-Signature") ? await verifySignedRequest(request, env) : await lookupApiKey(env, auth.startsWith("Bearer ") ? auth.slice("Bearer ".length) : "");
+	if (!key) return new Response("Unauthorized", { status: 401 });
+	requestCallers.set(request, key.id);
+	if (!key.scopes.includes(scope)) return new Response(`Forbidden: this key lacks the ${scope} scope`, { status: 403 });
+	return null;
+}
+
+/**
+ * Read the API key map
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<Record<string, ApiKeyRecord>>} Keys by id (revoked ones included)
+ */
+async function readApiKeys(env: RuntimeEnv): Promise<Record<string, ApiKeyRecord>> {
+	return ((await env.XMLRPC_PING_KV.get(API_KEYS_KEY, "json")) as Record<string, ApiKeyRecord> | null) ?? {};
+}
+
+/**
+ * Resolve a presented API key (`xrp_<id>_<secret>`) to its record
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {string} token The key
+ * @returns {Promise<ApiKeyRecord | null>} The active key, or null when unknown, revoked or wrong
+ */
+async function lookupApiKey(env: RuntimeEnv, token: string): Promise<ApiKeyRecord | null> {
+	const m = API_KEY_RE.exec(token);
+	if (!m) return null;
+	const rec = (await readApiKeys(env))[m[1]];
+	if (!rec || rec.revokedAt) return null;
+	return timingSafeEqual(await sha256Hex(m[2]), rec.hash) ? rec : null;
+}
+
+/**
+ * Verify an HMAC-signed request, for callers that shouldn't hold a reusable secret in a header.
+ * Headers: `X-Signature-Key` (key id), `X-Signature-Timestamp` (unix seconds), `X-Signature-Nonce` (16-128 of [A-Za-z0-9_-])
+ * and `X-Signature: sha256=<hex>`, an HMAC-SHA256 of `timestamp \n nonce \n METHOD \n path?query \n body` keyed with
+ * the hex SHA-256 of `sign:<secret>`. That key is only stored sealed (see sealSigningKey), so reading KV isn't enough
+ * to sign; keys created before it was stored can't sign. The timestamp must be within SIGNATURE_MAX_SKEW_SECONDS, and each nonce is
+ * accepted once per key (KV is eventually consistent, so a replay racing across locations within seconds can slip through).
+ * @param {Request} request The incoming request (its body is read from a clone)
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<ApiKeyRecord | null>} The signing key, or null when the signature is invalid, stale or replayed
+ */
+async function verifySignedRequest(request: Request, env: RuntimeEnv): Promise<ApiKeyRecord | null> {
+	const id = request.headers.get("X-Signature-Key") ?? "";
+	const ts = request.headers.get("X-Signature-Timestamp") ?? "";
+	const nonce = request.headers.get("X-Signature-Nonce") ?? "";
+	const sig = request.headers.get("X-Signature") ?? "";
+	if (!UNIX_TS_RE.test(ts) || Math.abs(Date.now() / 1000 - Number(ts)) > SIGNATURE_MAX_SKEW_SECONDS || !NONCE_RE.test(nonce)) return null;
+	const rec = (await readApiKeys(env))[id];
+	if (!rec || rec.revokedAt || !rec.signing) return null;
+	const signingKey = await openSigningKey(env, rec.signing);
+	if (!signingKey) return null;
+
+	const url = new URL(request.url);
+	const message = [ts, nonce, request.method, url.pathname + url.search, await request.clone().text()].join("\n");
+	if (!(await verifyHmacHex(signingKey, message, sig.startsWith("sha256=") ? sig.slice("sha256=".length) : ""))) return null;
+
+	const nonceKey = `${NONCE_PREFIX}${id}:${nonce}`;
+	if (await env.XMLRPC_PING_KV.get(nonceKey)) return null;
+	await env.XMLRPC_PING_KV.put(nonceKey, "1", { expirationTtl: SIGNATURE_MAX_SKEW_SECONDS * 2 });
+	return rec;
+}
+
+/**
+ * API key management (caller already holds the master secret).
+ * - GET    /keys                           → list (without hashes)
+ * - POST   /keys                           → create `{ name, scopes }`; the key is only returned here
+ * - DELETE /keys?id=…                      → revoke
+ * @param {Request} request The incoming request
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {URL} url The parsed request URL
+ * @returns {Promise<Response>} The JSON response
+ */
+async function handleKeysApi(request: Request, env: RuntimeEnv, url: URL): Promise<Response> {
+	const headers = { "Cache-Control": "no-store" };
+	const keys = await readApiKeys(env);
+	const save = (): Promise<void> => env.XMLRPC_PING_KV.put(API_KEYS_KEY, JSON.stringify(keys));
+	const view = (k: ApiKeyRecord): Omit<ApiKeyRecord, "hash" | "signing"> => ({ id: k.id, name: k.name, scopes: k.scopes, createdAt: k.createdAt, revokedAt: k.revokedAt });
+
+	switch (request.method) {
+		case "GET":
+			return Response.json({ keys: Object.values(keys).map(view) }, { headers });
+
+		case "POST": {
+			const body = (await safeJson(request)) as { name?: unknown; scopes?: unknown };
+			const name = typeof body.name === "string" ? body.name.trim().slice(0, 100) : "";
+			const scopes = Array.isArray(body.scopes) ? API_SCOPES.filter((sc) => (body.scopes as unknown[]).includes(sc)) : [];
+			if (!name) return Response.json({ error: "`name` is required" }, { status: 400, headers });
+			if (!scopes.length) return Response.json({ error: `\`scopes\` must list some of: ${API_SCOPES.join(", ")}` }, { status: 400, headers });
+
+			const id = toHex(crypto.getRandomValues(new Uint8Array(6)));
+			const secret = toHex(crypto.getRandomValues(new Uint8Array(32)));
+			keys[id] = { id, name, hash: await sha256Hex(secret), signing: await sealSigningKey(env, secret), scopes, createdAt: Date.now() };
+			await save();
+			await appendAudit(env, "keys.create", { id, name, scopes });
+			return Response.json({ ...view(keys[id]), key: `xrp_${id}_${secret}` }, { status: 201, headers });
+		}
+
+		case "DELETE": {
+			const rec = keys[url.searchParams.get("id") ?? ""];
+			if (!rec) return Response.json({ error: "not found" }, { status: 404, headers });
+			if (!rec.revokedAt) {
+				rec.revokedAt = Date.now();
+				await save();
+				await appendAudit(env, "keys.revoke", { id: rec.id, name: rec.name });
+			}
+			return Response.json({ revoked: view(rec) }, { headers });
+		}
+
+		default:
+			return new Response("Method Not Allowed", { status: 405, headers: { Allow: "GET, POST, DELETE" } });
+	}
+}
+
+/**
+ * Hex-encode bytes
+ * @param {Uint8Array} bytes The bytes
+ * @returns {string} Lowercase hex
+ */
+function toHex(bytes: Uint8Array): string {
+	return [...bytes].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * SHA-256 of a string
+ * @param {string} text The input
+ * @returns {Promise<string>} The digest, lowercase hex
+ */
+async function sha256Hex(text: string): Promise<string> {
+	return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text))));
+}
+
+/**
+ * Decode lowercase or uppercase hex (the caller checks the format)
+ * @param {string} hex The hex string
+ * @returns {Uint8Array<ArrayBuffer>} The bytes
+ */
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+	const bytes = new Uint8Array(hex.length / 2);
+	for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+	return bytes;
+}
+
+/**
+ * The AES-GCM key that seals API keys' signing keys. Derived from XMLRPC_PING_SECRET and never stored,
+ * so rotating the master secret stops every key from signing (Bearer use is unaffected)
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<CryptoKey>} The key
+ */
+async function signingSealKey(env: RuntimeEnv): Promise<CryptoKey> {
+	const raw = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`xmlrpc:signing:${env.XMLRPC_PING_SECRET}`));
+	return crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+/**
+ * Seal a key's signing key (the hex SHA-256 of `sign:<secret>`) for `xmlrpc:api-keys`
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {string} secret The key's secret
+ * @returns {Promise<string>} `<iv>.<ciphertext>`, both hex
+ */
+async function sealSigningKey(env: RuntimeEnv, secret: string): Promise<string> {
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const sealed = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, await signingSealKey(env), new TextEncoder().encode(await sha256Hex(`sign:${secret}`)));
+	return `${toHex(iv)}.${toHex(new Uint8Array(sealed))}`;
+}
+
+/**
+ * Open a sealed signing key
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {string} sealed The `<iv>.<ciphertext>` from sealSigningKey
+ * @returns {Promise<string | null>} The signing key, or null when it doesn't open (tampered, or another master secret)
+ */
+async function openSigningKey(env: RuntimeEnv, sealed: string): Promise<string | null> {
+	const [iv, data] = sealed.split(".");
+	if (!iv || !data || !HEX_RE.test(iv) || !HEX_RE.test(data)) return null;
+	try {
+		return new TextDecoder().decode(await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromHex(iv) }, await signingSealKey(env), fromHex(data)));
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Check a hex HMAC-SHA256 signature
+ * @param {string} secret The HMAC key
+ * @param {string} message The signed message
+ * @param {string} hex The presented signature
+ * @returns {Promise<boolean>} True when the signature matches
+ */
+async function verifyHmacHex(secret: string, message: string, hex: string): Promise<boolean> {
+	if (hex.length !== 64 || !HEX_RE.test(hex)) return false;
+	const sig = fromHex(hex);
+	const enc = new TextEncoder();
+	const key = await crypto.subtle.importKey("raw", enc.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["verify"]);
+	// crypto.subtle.verify compares in constant time
+	return crypto.subtle.verify("HMAC", key, sig, enc.encode(message));
+}
+
+// --- Request log ---
+
+const REQUEST_LOG_KEY = "xmlrpc:request-log"; // newest-first RequestLogEntry list
+const LAST_REQUEST_KEY = "xmlrpc:last-request"; // the latest trigger call, for the /health card
+const REQUEST_LOG_MAX = 500;
+const AUTH_FAIL_LOG_PER_MINUTE = 10; // failed-auth entries written per minute, across all IPs and paths
+const REQUEST_LOG_FLAGS = ["dry", "cursor", "limit", "only", "probe", "verbose", "site", "format"];
+const REQUEST_LOG_QUIET_PATHS = ["/health", "/metrics", "/runs", "/audit"]; // successful reads here aren't logged (dashboards poll them)
+const SECRET_FIELD_RE = /secret|token|password|key|signature/i;
+
+type RequestOutcome = "done" | "skipped" | "ok" | "error" | "unauthorized" | "forbidden";
+
+// One logged call: authenticated requests (except polled reads) and every failed auth attempt
+type RequestLogEntry = {
+	time: number;
+	method: string;
+	path: string;
+	keyId: string | null; // "master", an API key id, or the id a rejected caller presented
+	ip: string | null;
+	country: string | null;
+	flags: Record<string, string>; // query flags (see REQUEST_LOG_FLAGS)
+	body: unknown; // parsed and sanitized (see sanitizeBody)
+	status: number;
+	outcome: RequestOutcome;
+};
+
+// Verified caller per request, set by isAuthorized / requireScope and read by logRequest
+const requestCallers = new WeakMap<Request, string>();
+
+/**
+ * Append a call to the request log after the response is built. Failed auth is logged at most once a minute per
+ * IP and path, and at most AUTH_FAIL_LOG_PER_MINUTE times a minute overall, so a scanner rotating paths or IPs
+ * can't burn the KV write quota. The log is one KV value, so calls finishing at the same moment can overwrite each
+ * other's entries: it's a best-effort trail, not an exact count.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {Request} request The request
+ * @param {string} rawBody The request body, read before routing
+ * @param {Response} res The response sent
+ * @returns {Promise<void>}
+ */
+async function logRequest(env: RuntimeEnv, request: Request, rawBody: string, res: Response): Promise<void> {
+	const url = new URL(request.url);
+	const verified = requestCallers.get(request) ?? null;
+	const denied = res.status === 401 || res.status === 403;
+	if (!verified && !denied) return;
+	if (!denied && request.method === "GET" && REQUEST_LOG_QUIET_PATHS.some((p) => url.pathname === p || url.pathname.startsWith(`${p}/`))) return;
+
+	let outcome: RequestOutcome = res.status === 401 ? "unauthorized" : res.status === 403 ? "forbidden" : res.ok ? "ok" : "error";
+	if (res.ok && res.headers.get("Content-Type")?.includes("application/json")) {
+		const status = ((await res.clone().json()) as { status?: unknown } | null)?.status;
+		if (status === "done" || status === "skipped") outcome = status;
+	}
+	const entry: RequestLogEntry = {
+		time: Date.now(),
+		method: request.method,
+		path: url.pathname,
+		keyId: verified ?? claimedKeyId(request),
+		ip: request.headers.get("CF-Connecting-IP"),
+		country: typeof request.cf?.country === "string" ? request.cf.country : null,
+		flags: Object.fromEntries(REQUEST_LOG_FLAGS.flatMap((f) => (url.searchParams.has(f) ? [[f, url.searchParams.get(f) ?? ""]] : []))),
+		body: sanitizeBody(rawBody),
+		status: res.status,
+		outcome,
+	};
+
+	const log = ((await env.XMLRPC_PING_KV.get(REQUEST_LOG_KEY, "json")) as RequestLogEntry[] | null) ?? [];
+	if (denied) {
+		const recent = log.filter((e) => entry.time - e.time < 60_000 && (e.outcome === "unauthorized" || e.outcome === "forbidden"));
+		if (recent.length >= AUTH_FAIL_LOG_PER_MINUTE || recent.some((e) => e.ip === entry.ip && e.path === entry.path)) return;
+	}
+	await env.XMLRPC_PING_KV.put(REQUEST_LOG_KEY, JSON.stringify([entry, ...log].slice(0, REQUEST_LOG_MAX)));
+	if (outcome === "done" || outcome === "skipped") await env.XMLRPC_PING_KV.put(LAST_REQUEST_KEY, JSON.stringify({ time: entry.time, body: entry.body, keyId: entry.keyId, outcome }));
+}
+
+/**
+ * The key id a caller presented, without verifying it (for logging rejected calls)
+ * @param {Request} request The request
+ * @returns {string | null} The signing key id, the id part of an `xrp_` key, "bearer" for any other token, or null
+ */
+function claimedKeyId(request: Request): string | null {
+	const signed = request.headers.get("X-Signature-Key");
+	if (signed) return signed.slice(0, 40);
+	const auth = request.headers.get("authorization") ?? "";
+	if (!auth) return null;
+	return API_KEY_RE.exec(auth.slice("Bearer ".length))?.[1] ?? "bearer";
+}
+
+/**
+ * Parse a request body for the log: secret-looking fields are redacted, long strings and arrays cut short
+ * @param {string} raw The raw body
+ * @returns {unknown} The sanitized value (the first 200 characters when it isn't JSON; null when empty)
+ */
+function sanitizeBody(raw: string): unknown {
+	if (!raw) return null;
+	const clean = (v: unknown, depth: number): unknown => {
+		if (typeof v === "string") return v.length > 200 ? `${v.slice(0, 200)}…` : v;
+		if (typeof v !== "object" || v === null) return v;
+		if (depth > 3) return "[…]";
+		if (Array.isArray(v)) return v.length > 20 ? [...v.slice(0, 20).map((x) => clean(x, depth + 1)), `… ${v.length - 20} more`] : v.map((x) => clean(x, depth + 1));
+		return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, SECRET_FIELD_RE.test(k) ? "[redacted]" : clean(x, depth + 1)]));
+	};
+	try {
+		return clean(JSON.parse(raw), 0);
+	} catch {
+		return raw.slice(0, 200);
+	}
+}
+
+/**
+ * Audit routes (master secret only; entries carry caller IPs):
+ * - GET /audit?page=1&limit=50&outcome=&key= → the request log, newest first
+ * - GET /audit?log=actions&page=1&limit=50     → management actions (endpoint edits, key changes, migrations)
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {URL} url The parsed request URL
+ * @returns {Promise<Response>} `{ total, page, pages, entries }` as JSON
+ */
+async function handleAuditApi(env: RuntimeEnv, url: URL): Promise<Response> {
+	const limit = Math.max(1, Math.min(numberOr(url.searchParams.get("limit") ?? undefined, 50), REQUEST_LOG_MAX));
+	const page = Math.max(1, Math.floor(numberOr(url.searchParams.get("page") ?? undefined, 1)));
+	let entries: Array<RequestLogEntry | AuditEntry>;
+	if (url.searchParams.get("log") === "actions") {
+		entries = ((await env.XMLRPC_PING_KV.get(AUDIT_KEY, "json")) as AuditEntry[] | null) ?? [];
+	} else {
+		const outcome = url.searchParams.get("outcome");
+		const key = url.searchParams.get("key");
+		const log = ((await env.XMLRPC_PING_KV.get(REQUEST_LOG_KEY, "json")) as RequestLogEntry[] | null) ?? [];
+		entries = log.filter((e) => (!outcome || e.outcome === outcome) && (!key || e.keyId === key));
+	}
+	const pages = Math.max(1, Math.ceil(entries.length / limit));
+	return Response.json({ total: entries.length, page, pages, entries: entries.slice((page - 1) * limit, page * limit) }, { headers: { "Cache-Control": "no-store" } });
+}
+
+// --- Endpoint management ---
+
+/**
+ * Read `xmlrpc:endpoints`, upgrading legacy string entries to records
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<EndpointRecord[]>} The stored endpoints (empty when not seeded)
+ */
+async function readEndpointRecords(env: RuntimeEnv): Promise<EndpointRecord[]> {
+	return (await storage(env).getEndpoints()) ?? [];
+}
+
+/**
+ * Normalize an endpoint URL: http(s) only, no credentials/fragment, lowercase host, no default port
+ * @param {unknown} raw The user-supplied URL
+ * @returns {string | null} The normalized URL, or null when invalid
+ */
+function normalizeEndpointUrl(raw: unknown): string | null {
+	if (typeof raw !== "string" || !raw.trim()) return null;
+	let u: URL;
+	try {
+		u = new URL(raw.trim());
+	} catch {
+		return null;
+	}
+	if (u.protocol !== "http:" && u.protocol !== "https:") return null;
+	if (u.username || u.password) return null;
+	u.hash = "";
+	return u.toString(); // URL already lowercases the host and drops default ports
+}
+
+/**
+ * Dedup key: scheme-insensitive, trailing-slash-insensitive (http://x/ and https://x are the same service).
+ * Legacy lists may hold entries that aren't URLs; those key as their trimmed, lowercased text, so they can still be
+ * matched (and removed) without breaking the rest of the list.
+ * @param {string} url A normalized endpoint URL
+ * @returns {string} The key
+ */
+function endpointKey(url: string): string {
+	try {
+		const u = new URL(url);
+		return `${u.host}${u.pathname.replace(/\/+$/, "")}${u.search}`;
+	} catch {
+		return url.trim().toLowerCase();
+	}
+}
+
+/**
+ * Validate a user-supplied endpoint into a record
+ * @param {EndpointInput | string} input A URL string or `{ url, label?, notes?, disabled? }`
+ * @returns {EndpointRecord | string} The record, or an error message
+ */
+function toEndpointRecord(input: EndpointInput | string): EndpointRecord | string {
+	const obj: EndpointInput = typeof input === "string" ? { url: input } : (input ?? {});
+	const url = normalizeEndpointUrl(obj.url);
+	if (!url) return `invalid URL: ${String(obj.url)}`;
+	const rec: EndpointRecord = { url, addedAt: Date.now() };
+	if (typeof obj.label === "string" && obj.label.trim()) rec.label = obj.label.trim().slice(0, 100);
+	if (typeof obj.notes === "string" && obj.notes.trim()) rec.notes = obj.notes.trim().slice(0, 500);
+	if (obj.disabled === true) rec.disabled = true;
+	return rec;
+}
+
+/**
+ * Prepend an entry to the audit log (capped at AUDIT_MAX, newest first)
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {string} action What happened, e.g. "endpoints.add"
+ * @param {unknown} detail Action-specific details
+ * @returns {Promise<void>}
+ */
+async function appendAudit(env: RuntimeEnv, action: string, detail: unknown): Promise<void> {
+	const log = ((await env.XMLRPC_PING_KV.get(AUDIT_KEY, "json")) as AuditEntry[] | null) ?? [];
+	const entry: AuditEntry = { time: Date.now(), action, detail };
+	await env.XMLRPC_PING_KV.put(AUDIT_KEY, JSON.stringify([entry, ...log].slice(0, AUDIT_MAX)));
+}
+
+/**
+ * Endpoint management API (caller already authorized).
+ * - GET    /endpoints                      → list
+ * - POST   /endpoints                      → add `{ url, label?, notes?, disabled? }`
+ * - PATCH  /endpoints                      → update `{ url, label?, notes?, disabled? }` (enable/disable)
+ * - DELETE /endpoints?url=…                → remove
+ * - POST   /endpoints/import               → bulk add `{ endpoints: (string | object)[], replace? }`
+ * (`/endpoints/canonical` is handled by handleCanonicalApi)
+ * @param {Request} request The incoming request
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {URL} url The parsed request URL
+ * @returns {Promise<Response>} The JSON response
+ */
+async function handleEndpointsApi(request: Request, env: RuntimeEnv, url: URL): Promise<Response> {
+	const headers = { "Cache-Control": "no-store" };
+	const list = await readEndpointRecords(env);
+	const save = (next: EndpointRecord[]): Promise<void> => storage(env).setEndpoints(next);
+	const findIdx = (u: string): number => list.findIndex((e) => endpointKey(e.url) === endpointKey(u));
+
+	if (url.pathname === "/endpoints/import") {
+		if (request.method !== "POST") return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST" } });
+		const body = (await safeJson(request)) as { endpoints?: Array<EndpointInput | string>; replace?: boolean };
+		if (!Array.isArray(body.endpoints)) return Response.json({ error: "`endpoints` must be an array" }, { status: 400, headers });
+
+		const next = body.replace ? [] : [...list];
+		const seen = new Set(next.map((e) => endpointKey(e.url)));
+		const added: string[] = [];
+		const rejected: Array<{ input: unknown; reason: string }> = [];
+		for (const input of body.endpoints) {
+			const rec = toEndpointRecord(input);
+			if (typeof rec === "string") {
+				rejected.push({ input, reason: rec });
+				continue;
+			}
+			const key = endpointKey(rec.url);
+			if (seen.has(key)) {
+				rejected.push({ input, reason: "duplicate" });
+				continue;
+			}
+			seen.add(key);
+			next.push(rec);
+			added.push(rec.url);
+		}
+		await save(next);
+		await appendAudit(env, "endpoints.import", { replace: !!body.replace, added: added.length, rejected: rejected.length, total: next.length });
+		return Response.json({ added, rejected, total: next.length }, { headers });
+	}
+
+	switch (request.method) {
+		case "GET":
+			return Response.json({ total: list.length, enabled: list.filter((e) => !e.disabled).length, endpoints: list }, { headers });
+
+		case "POST": {
+			const rec = toEndpointRecord((await safeJson(request)) as EndpointInput);
+			if (typeof rec === "string") return Response.json({ error: rec }, { status: 400, headers });
+			if (findIdx(rec.url) >= 0) return Response.json({ error: "duplicate", existing: list[findIdx(rec.url)] }, { status: 409, headers });
+			await save([...list, rec]);
+			await appendAudit(env, "endpoints.add", rec);
+			return Response.json(rec, { status: 201, headers });
+		}
+
+		case "PATCH": {
+			const body = (await safeJson(request)) as EndpointInput;
+			const target = normalizeEndpointUrl(body.url) ?? (typeof body.url === "string" ? body.url : null); // raw: a legacy non-URL entry
+			const idx = target ? findIdx(target) : -1;
+			if (idx < 0) return Response.json({ error: "not found" }, { status: 404, headers });
+			const rec = { ...list[idx] };
+			if (typeof body.disabled === "boolean") rec.disabled = body.disabled;
+			if (typeof body.label === "string") rec.label = body.label.trim().slice(0, 100) || undefined;
+			if (typeof body.notes === "string") rec.notes = body.notes.trim().slice(0, 500) || undefined;
+			const next = [...list];
+			next[idx] = rec;
+			await save(next);
+			await appendAudit(env, "endpoints.update", { url: rec.url, disabled: body.disabled, label: body.label, notes: body.notes });
+			return Response.json(rec, { headers });
+		}
+
+		case "DELETE": {
+			const target = normalizeEndpointUrl(url.searchParams.get("url")) ?? url.searchParams.get("url"); // raw: a legacy non-URL entry
+			const idx = target ? findIdx(target) : -1;
+			if (idx < 0) return Response.json({ error: "not found" }, { status: 404, headers });
+			const removed = list[idx];
+			await save(list.filter((_, i) => i !== idx));
+			await appendAudit(env, "endpoints.remove", { url: removed.url });
+			return Response.json({ removed }, { headers });
+		}
+
+		default:
+			return new Response("Method Not Allowed", { status: 405, headers: { Allow: "GET, POST, PATCH, DELETE" } });
+	}
+}
+
+// --- Storage backends ---
+
+// Run history filters (see Storage.listRuns); `since`/`until` bound startedAt (ms)
+type RunQuery = { trigger?: RunRecord["trigger"]; status?: RunRecord["status"]; since?: number; until?: number; limit?: number };
+
+// Where the hot state lives: rate-limit locks, last-seen deploys, the shared endpoint list, the run ledger and
+// endpoint stats. Everything else (jobs, capabilities, audit, notifications…) stays in KV on both backends.
+type Storage = {
+	backend: "kv" | "d1";
+	acquireLock: (site: SiteConfig, trigger: JobTrigger) => Promise<boolean>; // take the site's lock; false while the trigger's cooldown since the last start runs
+	lockedAt: (site: SiteConfig) => Promise<number | null>; // when the live lock was taken
+	getLastSeen: (site: SiteConfig) => Promise<string | null>;
+	setLastSeen: (site: SiteConfig, id: string) => Promise<void>;
+	getEndpoints: () => Promise<EndpointRecord[] | null>; // null when never seeded
+	setEndpoints: (list: EndpointRecord[]) => Promise<void>;
+	putRun: (site: SiteConfig, run: RunRecord, retentionMs: number) => Promise<void>;
+	getRun: (id: string) => Promise<RunRecord | null>;
+	listRuns: (site: SiteConfig, q?: RunQuery) => Promise<RunSummary[]>;
+	getStats: () => Promise<Record<string, EndpointStats>>;
+	putStats: (stats: Record<string, EndpointStats>, changed: string[]) => Promise<void>;
+};
+
+// Row shapes read back from D1 (see migrations/0001_init.sql)
+type RunRow = { id: string; summary: string; results: string };
+type StatsRow = { url: string; data: string };
+
+/**
+ * The storage backend for this deployment: D1 when `XMLRPC_PING_DB` is bound, KV otherwise
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Storage} The backend
+ */
+function storage(env: RuntimeEnv): Storage {
+	return env.XMLRPC_PING_DB ? d1Storage(env.XMLRPC_PING_DB) : kvStorage(env.XMLRPC_PING_KV);
+}
+
+/**
+ * Apply a RunQuery to newest-first summaries
+ * @param {RunSummary[]} runs The summaries
+ * @param {RunQuery} q The filters
+ * @returns {RunSummary[]} The matching summaries, at most `q.limit`
+ */
+function filterRuns(runs: RunSummary[], q: RunQuery): RunSummary[] {
+	const hits = runs.filter((r) => (!q.trigger || r.trigger === q.trigger) && (!q.status || r.status === q.status) && (q.since === undefined || r.startedAt >= q.since) && (q.until === undefined || r.startedAt <= q.until));
+	return hits.slice(0, q.limit ?? RUNS_MAX);
+}
+
+/**
+ * The KV backend, on the original keys. KV has no compare-and-set, so acquireLock is a read-then-write:
+ * two invocations racing within KV's propagation window can both win.
+ * @param {KVNamespace} kv The namespace
+ * @returns {Storage} The backend
+ */
+function kvStorage(kv: KVNamespace): Storage {
+	const readIndex = async (site: SiteConfig): Promise<RunSummary[]> => ((await kv.get(siteKeys(site).runs, "json")) as RunSummary[] | null) ?? [];
+	return {
+		backend: "kv",
+		async acquireLock(site, trigger) {
+			const at = Number((await kv.get(siteKeys(site).lastPing)) ?? 0);
+			if (at && Date.now() - at < cooldownFor(site, trigger) * 1000) return false;
+			await kv.put(siteKeys(site).lastPing, String(Date.now()), { expirationTtl: lockHoldSeconds(site) });
+			return true;
+		},
+		async lockedAt(site) {
+			const raw = await kv.get(siteKeys(site).lastPing);
+			return raw ? Number(raw) : null;
+		},
+		getLastSeen: (site) => kv.get(siteKeys(site).lastSeen),
+		setLastSeen: (site, id) => kv.put(siteKeys(site).lastSeen, id),
+		async getEndpoints() {
+			const raw = (await kv.get(ENDPOINTS_KEY, "json")) as Array<string | EndpointRecord> | null;
+			if (!Array.isArray(raw)) return null;
+			return raw.map((e) => (typeof e === "string" ? { url: e, addedAt: 0 } : e)).filter((e) => typeof e?.url === "string");
+		},
+		setEndpoints: (list) => kv.put(ENDPOINTS_KEY, JSON.stringify(list)),
+		async putRun(site, run, retentionMs) {
+			const ttl = Math.max(60, Math.ceil(retentionMs / 1000)); // KV's minimum TTL is 60s
+			await kv.put(RUN_PREFIX + run.id, JSON.stringify(run), { expirationTtl: ttl });
+			const cutoff = Date.now() - retentionMs;
+			const index = (await readIndex(site)).filter((r) => r.id !== run.id && r.startedAt >= cutoff);
+			await kv.put(siteKeys(site).runs, JSON.stringify([runSummary(run), ...index].slice(0, RUNS_MAX)));
+		},
+		getRun: async (id) => (await kv.get(RUN_PREFIX + id, "json")) as RunRecord | null,
+		listRuns: async (site, q = {}) => filterRuns(await readIndex(site), q),
+		getStats: async () => ((await kv.get(STATS_KEY, "json")) as Record<string, EndpointStats> | null) ?? {},
+		putStats: (stats) => kv.put(STATS_KEY, JSON.stringify(stats)),
+	};
+}
+
+/**
+ * The D1 backend. The lock is a single conditional upsert, so exactly one caller takes it; the run ledger is
+ * queried in SQL (no RUNS_MAX cap on history, only retention); stats are upserted per changed endpoint.
+ * @param {D1Database} db The database (schema in migrations/)
+ * @returns {Storage} The backend
+ */
+function d1Storage(db: D1Database): Storage {
+	return {
+		backend: "d1",
+		async acquireLock(site, trigger) {
+			const now = Date.now();
+			const res = await db
+				.prepare("INSERT INTO locks (name, acquired_at, expires_at) VALUES (?1, ?2, ?3) ON CONFLICT (name) DO UPDATE SET acquired_at = excluded.acquired_at, expires_at = excluded.expires_at WHERE locks.acquired_at <= ?4")
+				.bind(site.id, now, now + lockHoldSeconds(site) * 1000, now - cooldownFor(site, trigger) * 1000)
+				.run();
+			return res.meta.changes > 0;
+		},
+		lockedAt: (site) => db.prepare("SELECT acquired_at FROM locks WHERE name = ?1 AND expires_at > ?2").bind(site.id, Date.now()).first<number>("acquired_at"),
+		getLastSeen: (site) => db.prepare("SELECT deploy_id FROM last_seen WHERE site_id = ?1").bind(site.id).first<string>("deploy_id"),
+		async setLastSeen(site, id) {
+			await db.prepare("INSERT INTO last_seen (site_id, deploy_id, seen_at) VALUES (?1, ?2, ?3) ON CONFLICT (site_id) DO UPDATE SET deploy_id = excluded.deploy_id, seen_at = excluded.seen_at").bind(site.id, id, Date.now()).run();
+		},
+		async getEndpoints() {
+			const { results } = await db.prepare("SELECT data FROM endpoints ORDER BY position").all<{ data: string }>();
+			return results.length ? results.map((r) => JSON.parse(r.data) as EndpointRecord) : null;
+		},
+		async setEndpoints(list) {
+			const insert = db.prepare("INSERT INTO endpoints (position, url, data) VALUES (?1, ?2, ?3)");
+			await db.batch([db.prepare("DELETE FROM endpoints"), ...list.map((e, i) => insert.bind(i, e.url, JSON.stringify(e)))]);
+		},
+		async putRun(site, run, retentionMs) {
+			const summary = runSummary(run);
+			await db.batch([db.prepare("INSERT OR REPLACE INTO runs (id, site_id, trigger, status, started_at, summary, results) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)").bind(run.id, site.id, run.trigger, run.status, run.startedAt, JSON.stringify(summary), JSON.stringify(run.results)), db.prepare("DELETE FROM runs WHERE started_at < ?1").bind(Date.now() - retentionMs)]);
+		},
+		async getRun(id) {
+			const row = await db.prepare("SELECT id, summary, results FROM runs WHERE id = ?1").bind(id).first<RunRow>();
+			return row ? { ...(JSON.parse(row.summary) as RunSummary), results: JSON.parse(row.results) as PingResult[] } : null;
+		},
+		async listRuns(site, q = {}) {
+			const where = ["site_id = ?1"];
+			const args: Array<string | number> = [site.id];
+			const add = (clause: string, value: string | number | undefined): void => {
+				if (value === undefined) return;
+				args.push(value);
+				where.push(`${clause} ?${args.length}`);
+			};
+			add("trigger =", q.trigger);
+			add("status =", q.status);
+			add("started_at >=", q.since);
+			add("started_at <=", q.until);
+			args.push(q.limit ?? RUNS_MAX);
+			const { results } = await db
+				.prepare(`SELECT summary FROM runs WHERE ${where.join(" AND ")} ORDER BY started_at DESC LIMIT ?${args.length}`)
+				.bind(...args)
+				.all<{ summary: string }>();
+			return results.map((r) => JSON.parse(r.summary) as RunSummary);
+		},
+		async getStats() {
+			const { results } = await db.prepare("SELECT url, data FROM endpoint_stats").all<StatsRow>();
+			return Object.fromEntries(results.map((r) => [r.url, JSON.parse(r.data) as EndpointStats]));
+		},
+		async putStats(stats, changed) {
+			const upsert = db.prepare("INSERT INTO endpoint_stats (url, data, quarantined_at, updated_at) VALUES (?1, ?2, ?3, ?4) ON CONFLICT (url) DO UPDATE SET data = excluded.data, quarantined_at = excluded.quarantined_at, updated_at = excluded.updated_at");
+			const now = Date.now();
+			const rows = changed.filter((u) => stats[u]).map((u) => upsert.bind(u, JSON.stringify(stats[u]), stats[u].quarantinedAt, now));
+			if (rows.length) await db.batch(rows);
+		},
+	};
+}
+
+/**
+ * Copy KV state into D1 (master secret only): POST /storage/migrate?limit=N. Idempotent and resumable — rows already
+ * in D1 are kept, and at most `limit` runs (default 100) are copied per call, so repeat until `remaining` is 0.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig[]} sites The site registry
+ * @param {URL} url The parsed request URL
+ * @returns {Promise<Response>} `{ copied, remaining }` as JSON
+ */
+async function handleStorageMigrate(env: RuntimeEnv, sites: SiteConfig[], url: URL): Promise<Response> {
+	const headers = { "Cache-Control": "no-store" };
+	if (!env.XMLRPC_PING_DB) return Response.json({ error: "XMLRPC_PING_DB is not bound" }, { status: 400, headers });
+	const kv = kvStorage(env.XMLRPC_PING_KV);
+	const d1 = d1Storage(env.XMLRPC_PING_DB);
+	const limit = Math.max(1, Math.min(numberOr(url.searchParams.get("limit") ?? undefined, 100), RUNS_MAX));
+	const retentionMs = numberOr(env.RUN_RETENTION_DAYS, 30) * 24 * HOUR * 1000;
+	const copied = { endpoints: 0, stats: 0, lastSeen: 0, locks: 0, runs: 0 };
+	let remaining = 0;
+	try {
+		const endpoints = await kv.getEndpoints();
+		if (endpoints?.length && !(await d1.getEndpoints())) {
+			await d1.setEndpoints(endpoints);
+			copied.endpoints = endpoints.length;
+		}
+
+		const [kvStats, d1Stats] = await Promise.all([kv.getStats(), d1.getStats()]);
+		const missing = Object.keys(kvStats).filter((u) => !d1Stats[u]);
+		await d1.putStats(kvStats, missing);
+		copied.stats = missing.length;
+
+		for (const site of sites) {
+			const [seen, lock] = await Promise.all([kv.getLastSeen(site), kv.lockedAt(site)]);
+			if (seen && !(await d1.getLastSeen(site))) {
+				await d1.setLastSeen(site, seen);
+				copied.lastSeen++;
+			}
+			// Carry a live lock over with its original start, so the window doesn't restart
+			if (lock && !(await d1.lockedAt(site))) {
+				await env.XMLRPC_PING_DB.prepare("INSERT OR REPLACE INTO locks (name, acquired_at, expires_at) VALUES (?1, ?2, ?3)")
+					.bind(site.id, lock, lock + lockHoldSeconds(site) * 1000)
+					.run();
+				copied.locks++;
+			}
+
+			const known = new Set((await d1.listRuns(site, { limit: 1e6 })).map((r) => r.id));
+			const todo = (await kv.listRuns(site)).filter((r) => !known.has(r.id));
+			for (const summary of todo) {
+				if (copied.runs >= limit) {
+					remaining++;
+					continue;
+				}
+				const run = await kv.getRun(summary.id);
+				if (!run) continue; // expired record, only the index entry is left
+				await d1.putRun(site, run, retentionMs);
+				copied.runs++;
+			}
+		}
+	} catch (e) {
+		return Response.json({ error: e instanceof Error ? e.message : String(e), copied }, { status: 500, headers });
+	}
+	await appendAudit(env, "storage.migrate", { copied, remaining });
+	return Response.json({ copied, remaining }, { headers });
+}
+
+// --- Run ledger ---
+
+/**
+ * Write (or update) a run record and its entry in the site's newest-first index; entries past retention are pruned
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site the run belongs to
+ * @param {RunRecord} run The run
+ * @returns {Promise<void>}
+ */
+async function recordRun(env: RuntimeEnv, site: SiteConfig, run: RunRecord): Promise<void> {
+	const retentionMs = numberOr(env.RUN_RETENTION_DAYS, 30) * 24 * HOUR * 1000;
+	await storage(env).putRun(site, run, retentionMs);
+	await recordEndpointHistory(env, site, run, retentionMs);
+}
+
+/**
+ * Fold a run's ping rows into the site's per-endpoint history (one KV key, so /health/endpoint is a single read).
+ * A job's batches rewrite the same run's attempt; each endpoint keeps its latest ENDPOINT_HISTORY_RUNS attempts,
+ * and endpoints with nothing newer than retention are dropped.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site the run belongs to
+ * @param {RunRecord} run The run
+ * @param {number} retentionMs How long attempts are kept
+ * @returns {Promise<void>}
+ */
+async function recordEndpointHistory(env: RuntimeEnv, site: SiteConfig, run: RunRecord, retentionMs: number): Promise<void> {
+	const key = siteKeys(site).history;
+	const map = ((await env.XMLRPC_PING_KV.get(key, "json")) as EndpointHistoryKV | null) ?? {};
+	for (const result of run.results) {
+		if (result.channel) continue;
+		const k = endpointKey(result.url);
+		const attempts = [{ runId: run.id, at: run.startedAt, trigger: run.trigger, result }, ...(map[k] ?? []).filter((a) => a.runId !== run.id)];
+		map[k] = attempts.sort((a, b) => b.at - a.at).slice(0, ENDPOINT_HISTORY_RUNS);
+	}
+	const cutoff = Date.now() - retentionMs;
+	for (const [k, attempts] of Object.entries(map)) if (!attempts.length || attempts[0].at < cutoff) delete map[k];
+	await env.XMLRPC_PING_KV.put(key, JSON.stringify(map));
+}
+
+/**
+ * Strip the per-endpoint results from a run
+ * @param {RunRecord} run The run
+ * @returns {RunSummary} The run without results
+ */
+function runSummary(run: RunRecord): RunSummary {
+	return { id: run.id, trigger: run.trigger, deployId: run.deployId, newItems: run.newItems, siteId: run.siteId, site: run.site, method: run.method, status: run.status, startedAt: run.startedAt, finishedAt: run.finishedAt, durationMs: run.durationMs, totals: run.totals };
+}
+
+/**
+ * Read a site's run index (newest first)
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @param {RunQuery} [q] Filters (trigger, status, time range, limit)
+ * @returns {Promise<RunSummary[]>} The run summaries
+ */
+async function listRuns(env: RuntimeEnv, site: SiteConfig, q?: RunQuery): Promise<RunSummary[]> {
+	return storage(env).listRuns(site, q);
+}
+
+/**
+ * Read one run with its full results
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {string} id The run id
+ * @returns {Promise<RunRecord | null>} The run, or null when unknown or expired
+ */
+async function getRun(env: RuntimeEnv, id: string): Promise<RunRecord | null> {
+	return storage(env).getRun(id);
+}
+
+/**
+ * Compare two runs endpoint by endpoint
+ * @param {RunRecord} a The older run
+ * @param {RunRecord} b The newer run
+ * @returns {RunDiff} Which endpoints changed state between them
+ */
+function diffRuns(a: RunRecord, b: RunRecord): RunDiff {
+	const before = new Map(a.results.map((r) => [r.url, r]));
+	const after = new Map(b.results.map((r) => [r.url, r]));
+	const diff: RunDiff = { a: runSummary(a), b: runSummary(b), fixed: [], broken: [], added: [], removed: [], unchanged: 0 };
+	for (const [url, next] of after) {
+		const prev = before.get(url);
+		if (!prev) diff.added.push(url);
+		else if (!prev.ok && next.ok) diff.fixed.push({ url, before: prev, after: next });
+		else if (prev.ok && !next.ok) diff.broken.push({ url, before: prev, after: next });
+		else diff.unchanged++;
+	}
+	for (const url of before.keys()) if (!after.has(url)) diff.removed.push(url);
+	return diff;
+}
+
+/**
+ * Run ledger routes (read-only, same access as /health):
+ * - GET /runs?limit=N&site=id&trigger=&status=&since=&until= → newest-first summaries (all sites when `site` is
+ *   omitted; `since`/`until` are ms timestamps bounding startedAt)
+ * - GET /runs/<id>         → one run with full per-endpoint results
+ * - GET /runs/diff?a=&b=   → endpoints that changed state between run a and run b
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig[]} sites The site registry
+ * @param {URL} url The parsed request URL
+ * @returns {Promise<Response>} The JSON response
+ */
+async function handleRunsApi(env: RuntimeEnv, sites: SiteConfig[], url: URL): Promise<Response> {
+	const headers = { "Cache-Control": "no-store" };
+	if (url.pathname === "/runs") {
+		const limit = Math.max(1, Math.min(numberOr(url.searchParams.get("limit") ?? undefined, 50), RUNS_MAX));
+		const siteId = url.searchParams.get("site");
+		const picked = siteId ? sites.filter((s) => s.id === siteId) : sites;
+		const ms = (name: string): number | undefined => {
+			const n = Number(url.searchParams.get(name) || NaN);
+			return Number.isFinite(n) ? n : undefined;
+		};
+		const q: RunQuery = { trigger: (url.searchParams.get("trigger") || undefined) as RunQuery["trigger"], status: (url.searchParams.get("status") || undefined) as RunQuery["status"], since: ms("since"), until: ms("until") };
+		const runs = (await Promise.all(picked.map((s) => listRuns(env, s, q)))).flat().sort((a, b) => b.startedAt - a.startedAt);
+		return Response.json({ total: runs.length, runs: runs.slice(0, limit) }, { headers });
+	}
+	if (url.pathname === "/runs/diff") {
+		const [a, b] = await Promise.all([getRun(env, url.searchParams.get("a") ?? ""), getRun(env, url.searchParams.get("b") ?? "")]);
+		if (!a || !b) return Response.json({ error: "run not found" }, { status: 404, headers });
+		return Response.json(diffRuns(a, b), { headers });
+	}
+	let id: string;
+	try {
+		id = decodeURIComponent(url.pathname.slice("/runs/".length));
+	} catch {
+		return Response.json({ error: "malformed run id" }, { status: 400, headers });
+	}
+	const run = await getRun(env, id);
+	return run ? Response.json(run, { headers }) : Response.json({ error: "run not found" }, { status: 404, headers });
+}
+
+// --- Metrics ---
+
+const METRICS_KEY = "xmlrpc:metrics"; // MetricsCounters
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10]; // seconds (upper bounds; +Inf is implied)
+
+// Counters behind /metrics. Composite keys are space-separated (site ids never contain spaces).
+// Endpoint success counts come from xmlrpc:stats instead.
+type MetricsCounters = {
+	runs: Record<string, number>; // "site trigger status" -> runs (status: done | skipped | queued)
+	detector: Record<string, number>; // "site detector outcome" -> checks (outcome: new | unchanged | error)
+	subrequests: Record<string, number>; // site -> subrequests spent by ping batches
+	lastBatch: Record<string, { used: number; budget: number; at: number }>; // site -> latest batch
+	lastSuccessAt: Record<string, number>; // site -> time of the latest batch with an accepted ping
+	latency: Record<string, { buckets: number[]; sum: number; count: number }>; // endpoint URL -> ping latency histogram (real runs)
+};
+
+type MetricSample = { suffix?: string; labels: Record<string, string>; value: number };
+
+// Updates held in memory while a cron tick runs (see holdMetrics); null: every update is written at once
+let pendingMetrics: Array<(m: MetricsCounters) => void> | null = null;
+
+/**
+ * Read-modify-write the metric counters, or hold the update for flushMetrics while a tick runs. KV has no atomic
+ * increment, so concurrent writers can lose an update; cron ticks write once and don't overlap, which keeps that rare.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {(m: MetricsCounters) => void} update Mutates the counters
+ * @returns {Promise<void>}
+ */
+async function recordMetrics(env: RuntimeEnv, update: (m: MetricsCounters) => void): Promise<void> {
+	if (pendingMetrics) {
+		pendingMetrics.push(update);
+		return;
+	}
+	const m = await readMetrics(env);
+	update(m);
+	await env.XMLRPC_PING_KV.put(METRICS_KEY, JSON.stringify(m));
+}
+
+/**
+ * Hold metric updates in memory until flushMetrics, so a cron tick costs one counters write instead of one per
+ * detector check and batch
+ * @returns {void}
+ */
+function holdMetrics(): void {
+	pendingMetrics ??= [];
+}
+
+/**
+ * Apply the held metric updates in one read-modify-write and go back to writing them at once
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<void>}
+ */
+async function flushMetrics(env: RuntimeEnv): Promise<void> {
+	const held = pendingMetrics ?? [];
+	pendingMetrics = null;
+	if (held.length) await recordMetrics(env, (m) => held.forEach((update) => update(m)));
+}
+
+/**
+ * Read the metric counters
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<MetricsCounters>} The counters, with defaults filled in
+ */
+async function readMetrics(env: RuntimeEnv): Promise<MetricsCounters> {
+	const m = (await env.XMLRPC_PING_KV.get(METRICS_KEY, "json")) as Partial<MetricsCounters> | null;
+	return { runs: m?.runs ?? {}, detector: m?.detector ?? {}, subrequests: m?.subrequests ?? {}, lastBatch: m?.lastBatch ?? {}, lastSuccessAt: m?.lastSuccessAt ?? {}, latency: m?.latency ?? {} };
+}
+
+/**
+ * Add to a counter
+ * @param {Record<string, number>} counters The counter map
+ * @param {string} key The counter
+ * @param {number} by The increment
+ * @returns {void}
+ */
+function bump(counters: Record<string, number>, key: string, by = 1): void {
+	counters[key] = (counters[key] ?? 0) + by;
+}
+
+/**
+ * Count one ping latency into an endpoint's histogram
+ * @param {MetricsCounters} m The counters
+ * @param {string} url The endpoint URL
+ * @param {number} ms The latency in milliseconds
+ * @returns {void}
+ */
+function observeLatency(m: MetricsCounters, url: string, ms: number): void {
+	const h = (m.latency[url] ??= { buckets: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 });
+	const secs = ms / 1000;
+	LATENCY_BUCKETS.forEach((le, i) => {
+		if (secs <= le) h.buckets[i]++;
+	});
+	h.sum += secs;
+	h.count++;
+}
+
+/**
+ * Format one metric family in the OpenMetrics text format
+ * @param {string} name The family name (counters without the `_total` suffix)
+ * @param {"counter" | "gauge" | "histogram"} type The metric type
+ * @param {string} help The HELP text
+ * @param {MetricSample[]} samples The samples
+ * @returns {string} The family's lines
+ */
+function metricFamily(name: string, type: "counter" | "gauge" | "histogram", help: string, samples: MetricSample[]): string {
+	const esc = (v: string): string => v.replaceAll("\\", "\\\\").replaceAll('"', '\\"').replaceAll("\n", "\\n");
+	const lines = samples.map((sm) => {
+		const labels = Object.entries(sm.labels).map(([k, v]) => `${k}="${esc(v)}"`);
+		return `${name}${sm.suffix ?? ""}${labels.length ? `{${labels.join(",")}}` : ""} ${Number.isFinite(sm.value) ? sm.value : 0}`;
+	});
+	return [`# TYPE ${name} ${type}`, `# HELP ${name} ${help}`, ...lines].join("\n");
+}
+
+/**
+ * Render /metrics: run, detector and subrequest counters, per-endpoint results and latency, and per-site gauges
+ * (time since the last accepted ping, rate-lock remaining, job cursor)
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig[]} sites The site registry
+ * @returns {Promise<string>} The OpenMetrics exposition, ending with `# EOF`
+ */
+async function renderMetrics(env: RuntimeEnv, sites: SiteConfig[]): Promise<string> {
+	const [m, stats] = await Promise.all([readMetrics(env), readStats(env)]);
+	const perSite = await Promise.all(sites.map((site) => Promise.all([storage(env).lockedAt(site), env.XMLRPC_PING_KV.get(siteKeys(site).job, "json") as Promise<PingJob | null>])));
+	const now = Date.now();
+	const split = (key: string): string[] => key.split(" ");
+
+	const latency: MetricSample[] = Object.entries(m.latency).flatMap(([endpoint, h]) => [...LATENCY_BUCKETS.map((le, i) => ({ suffix: "_bucket", labels: { endpoint, le: Number.isInteger(le) ? le.toFixed(1) : String(le) }, value: h.buckets[i] })), { suffix: "_bucket", labels: { endpoint, le: "+Inf" }, value: h.count }, { suffix: "_count", labels: { endpoint }, value: h.count }, { suffix: "_sum", labels: { endpoint }, value: h.sum }]);
+	const lockRemaining = sites.map((site, i) => {
+		const lastPing = perSite[i][0] ?? 0;
+		return { labels: { site: site.id }, value: lastPing ? Math.max(0, Math.round(site.cooldowns.cron - (now - lastPing) / 1000)) : 0 };
+	});
+	const jobs = sites.flatMap((site, i) => {
+		const job = perSite[i][1];
+		return job ? [{ site: site.id, job }] : [];
+	});
+
+	return [
+		metricFamily(
+			"xmlrpc_runs",
+			"counter",
+			"Finished, rate-limited or policy-held ping runs",
+			Object.entries(m.runs).map(([k, value]) => ({ suffix: "_total", labels: { site: split(k)[0], trigger: split(k)[1], status: split(k)[2] }, value })),
+		),
+		metricFamily(
+			"xmlrpc_detector_checks",
+			"counter",
+			"Cron detector checks by outcome",
+			Object.entries(m.detector).map(([k, value]) => ({ suffix: "_total", labels: { site: split(k)[0], detector: split(k)[1], outcome: split(k)[2] }, value })),
+		),
+		metricFamily(
+			"xmlrpc_subrequests",
+			"counter",
+			"Subrequests spent by ping batches",
+			Object.entries(m.subrequests).map(([site, value]) => ({ suffix: "_total", labels: { site }, value })),
+		),
+		metricFamily(
+			"xmlrpc_batch_subrequests",
+			"gauge",
+			"Subrequests used by the latest batch",
+			Object.entries(m.lastBatch).map(([site, b]) => ({ labels: { site }, value: b.used })),
+		),
+		metricFamily(
+			"xmlrpc_batch_subrequest_budget",
+			"gauge",
+			"SUBREQ_BUDGET of the latest batch",
+			Object.entries(m.lastBatch).map(([site, b]) => ({ labels: { site }, value: b.budget })),
+		),
+		metricFamily(
+			"xmlrpc_endpoint_pings",
+			"counter",
+			"Pings per endpoint by result (real runs)",
+			Object.entries(stats).flatMap(([endpoint, st]) => [
+				{ suffix: "_total", labels: { endpoint, result: "ok" }, value: st.successes },
+				{ suffix: "_total", labels: { endpoint, result: "fail" }, value: st.runs - st.successes },
+			]),
+		),
+		metricFamily(
+			"xmlrpc_endpoint_quarantined",
+			"gauge",
+			"1 while an endpoint is quarantined",
+			Object.entries(stats).map(([endpoint, st]) => ({ labels: { endpoint }, value: st.quarantinedAt ? 1 : 0 })),
+		),
+		metricFamily("xmlrpc_endpoint_latency_seconds", "histogram", "Ping latency per endpoint (real runs)", latency),
+		metricFamily(
+			"xmlrpc_last_success_age_seconds",
+			"gauge",
+			"Seconds since the latest batch with an accepted ping",
+			Object.entries(m.lastSuccessAt).map(([site, at]) => ({ labels: { site }, value: Math.round((now - at) / 1000) })),
+		),
+		metricFamily("xmlrpc_rate_lock_remaining_seconds", "gauge", "Seconds until the cron cooldown lets the next real run start", lockRemaining),
+		metricFamily(
+			"xmlrpc_job_active",
+			"gauge",
+			"1 while the site's ping job is unfinished",
+			jobs.map(({ site, job }) => ({ labels: { site }, value: job.finishedAt ? 0 : 1 })),
+		),
+		metricFamily(
+			"xmlrpc_job_cursor",
+			"gauge",
+			"Endpoints the current (or last) job has walked",
+			jobs.map(({ site, job }) => ({ labels: { site }, value: Math.min(job.cursor, job.total) })),
+		),
+		metricFamily(
+			"xmlrpc_job_endpoints",
+			"gauge",
+			"Endpoints in the current (or last) job",
+			jobs.map(({ site, job }) => ({ labels: { site }, value: job.total })),
+		),
+		"# EOF\n",
+	].join("\n");
+}
+
+// --- Sites ---
+
+const SITE_ID_RE = /^[a-z0-9-]+$/;
+
+/**
+ * The site described by the legacy single-site env vars; it keeps the original (un-namespaced) KV keys
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {SiteConfig} The default site
+ */
+function defaultSite(env: RuntimeEnv): SiteConfig {
+	return {
+		id: DEFAULT_SITE_ID,
+		name: env.SITE_NAME ?? "Viorel Mocanu",
+		url: env.SITE_URL ?? "https://www.viorelmocanu.ro",
+		feed: env.FEED_URL ?? null,
+		detector: toDetectorName(env.DETECTOR),
+		githubRepo: env.GITHUB_REPO,
+		githubBranch: env.GITHUB_BRANCH,
+		cloudflareAccountId: env.CLOUDFLARE_ACCOUNT_ID,
+		cloudflarePagesProject: env.CLOUDFLARE_PAGES_PROJECT,
+		gitlabProject: env.GITLAB_PROJECT,
+		gitlabBranch: env.GITLAB_BRANCH,
+		netlifySiteId: env.NETLIFY_SITE_ID,
+		vercelProjectId: env.VERCEL_PROJECT_ID,
+		vercelTeamId: env.VERCEL_TEAM_ID,
+		detectUrl: env.DETECT_URL,
+		indexNowKey: env.INDEXNOW_KEY,
+		indexNowKeyLocation: env.INDEXNOW_KEY_LOCATION,
+		websubHubs: parseStringList(env.WEBSUB_HUBS),
+		rateLimitSeconds: HOUR,
+		cooldowns: siteCooldowns(env, HOUR),
+	};
+}
+
+/**
+ * Load the site registry: `xmlrpc:sites` in KV, then the SITES var, then the single default site.
+ * Entries without a valid id, name or url are dropped, as are duplicate ids.
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<SiteConfig[]>} At least one site
+ */
+async function loadSites(env: RuntimeEnv): Promise<SiteConfig[]> {
+	let raw = (await env.XMLRPC_PING_KV.get(SITES_KEY, { type: "json", cacheTtl: SITES_CACHE_TTL })) as unknown; // read on every request
+	if (!Array.isArray(raw) && env.SITES) {
+		try {
+			raw = JSON.parse(env.SITES);
+		} catch {
+			raw = null;
+		}
+	}
+	if (!Array.isArray(raw)) return [defaultSite(env)];
+
+	const sites: SiteConfig[] = [];
+	for (const item of raw as Partial<SiteConfig>[]) {
+		if (!item || typeof item.id !== "string" || !SITE_ID_RE.test(item.id) || typeof item.name !== "string" || typeof item.url !== "string") continue;
+		if (sites.some((s) => s.id === item.id)) continue;
+		const rateLimitSeconds = Math.max(60, numberOr(String(item.rateLimitSeconds ?? ""), HOUR));
+		sites.push({
+			id: item.id,
+			name: item.name,
+			url: item.url,
+			feed: typeof item.feed === "string" ? item.feed : null,
+			detector: toDetectorName(item.detector),
+			githubRepo: item.githubRepo,
+			githubBranch: item.githubBranch,
+			cloudflareAccountId: item.cloudflareAccountId,
+			cloudflarePagesProject: item.cloudflarePagesProject,
+			gitlabProject: item.gitlabProject,
+			gitlabBranch: item.gitlabBranch,
+			netlifySiteId: item.netlifySiteId,
+			vercelProjectId: item.vercelProjectId,
+			vercelTeamId: item.vercelTeamId,
+			detectUrl: item.detectUrl,
+			indexNowKey: item.indexNowKey,
+			indexNowKeyLocation: item.indexNowKeyLocation,
+			websubHubs: Array.isArray(item.websubHubs) ? item.websubHubs.filter((h) => typeof h === "string") : undefined,
+			endpoints: Array.isArray(item.endpoints) ? item.endpoints.filter((e) => typeof e === "string") : undefined,
+			rateLimitSeconds,
+			cooldowns: siteCooldowns(env, rateLimitSeconds, item.cooldowns ?? undefined),
+		});
+	}
+	return sites.length ? sites : [defaultSite(env)];
+}
+
+/**
+ * Find a site by id in the registry or the relay allow-list
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {string} id The site id
+ * @returns {Promise<SiteConfig | undefined>} The site, if any
+ */
+async function findSite(env: RuntimeEnv, id: string): Promise<SiteConfig | undefined> {
+	return (await loadSites(env)).find((s) => s.id === id) ?? (await relaySites(env)).find((s) => s.id === id);
+}
+
+/**
+ * A site's per-trigger cooldowns: its own `cooldowns` from the registry, then CRON_COOLDOWN_SECONDS /
+ * MANUAL_COOLDOWN_SECONDS, then its rateLimitSeconds
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {number} rateLimitSeconds The site's rate-limit window
+ * @param {Partial<SiteConfig["cooldowns"]>} [own] Values from the site registry
+ * @returns {SiteConfig["cooldowns"]} The cooldowns in seconds
+ */
+function siteCooldowns(env: RuntimeEnv, rateLimitSeconds: number, own: Partial<SiteConfig["cooldowns"]> = {}): SiteConfig["cooldowns"] {
+	const pick = (value: unknown, raw: string | undefined): number => Math.max(0, typeof value === "number" && Number.isFinite(value) ? value : numberOr(raw, rateLimitSeconds));
+	return { cron: pick(own.cron, env.CRON_COOLDOWN_SECONDS), manual: pick(own.manual, env.MANUAL_COOLDOWN_SECONDS) };
+}
+
+/**
+ * The cooldown a trigger has to wait out after the site's last run start
+ * @param {SiteConfig} site The site
+ * @param {JobTrigger} trigger What wants to start a run (webhooks share the cron cooldown)
+ * @returns {number} Seconds
+ */
+function cooldownFor(site: SiteConfig, trigger: JobTrigger): number {
+	return trigger === "manual" ? site.cooldowns.manual : site.cooldowns.cron;
+}
+
+/**
+ * How long a site's lock is kept: long enough for the longer of its cooldowns
+ * @param {SiteConfig} site The site
+ * @returns {number} Seconds (at least 60, KV's minimum TTL)
+ */
+function lockHoldSeconds(site: SiteConfig): number {
+	return Math.max(60, site.cooldowns.cron, site.cooldowns.manual);
+}
+
+/**
+ * Parse a JSON array of strings from a var
+ * @param {string | undefined} raw The raw var
+ * @returns {string[] | undefined} The strings, or undefined when unset or malformed
+ */
+function parseStringList(raw: string | undefined): string[] | undefined {
+	if (!raw) return undefined;
+	try {
+		const list = JSON.parse(raw) as unknown;
+		return Array.isArray(list) ? list.filter((x): x is string => typeof x === "string") : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * KV keys holding a site's state. The default site keeps the original keys so single-site installs need no migration.
+ * @param {SiteConfig} site The site
+ * @returns {SiteKeys} The keys
+ */
+function siteKeys(site: SiteConfig): SiteKeys {
+	const p = site.id === DEFAULT_SITE_ID ? "xmlrpc:" : `xmlrpc:site:${site.id}:`;
+	return { lastPing: `${p}last-ping`, lastSeen: `${p}last-seen`, job: `${p}job`, lastResult: `${p}last-result`, lastDry: `${p}last-dry`, runs: `${p}runs`, feedSeen: `${p}feed-seen`, history: `${p}endpoint-history` };
+}
+
+// --- Jobs ---
+
+/**
+ * Create a new (not yet persisted) ping job
+ * @param {JobTrigger} trigger What started the job
+ * @param {string | null} deployId The commit sha / deploy id that triggered it, if any
+ * @param {Partial<PingPayload>} payload The ping payload to replay on every batch
+ * @param {number} cursor The endpoint index to start from
+ * @param {number} limit Ping only the first N endpoints (0: all)
+ * @returns {PingJob} The new job
+ */
+function newJob(trigger: JobTrigger, deployId: string | null, payload: Partial<PingPayload>, cursor = 0, limit = 0): PingJob {
+	const now = Date.now();
+	return { id: crypto.randomUUID(), trigger, deployId, payload, ...(limit > 0 ? { limit } : {}), cursor: Math.max(0, cursor), total: 0, startedAt: now, updatedAt: now, finishedAt: null, batches: [], results: [] };
+}
+
+/**
+ * Whether a POST body continues a job: empty (besides cursor / siteId), or the same ping the job was started with
+ * @param {Partial<PingPayload>} body The request body
+ * @param {Partial<PingPayload>} jobPayload The active job's payload
+ * @returns {boolean} True when the body adds nothing the job would drop
+ */
+function samePayload(body: Partial<PingPayload>, jobPayload: Partial<PingPayload>): boolean {
+	const strip = (p: Partial<PingPayload>): string =>
+		JSON.stringify(
+			Object.entries(p)
+				.filter(([k]) => k !== "cursor" && k !== "siteId")
+				.sort(([a], [b]) => a.localeCompare(b)),
+		);
+	return strip(body) === "[]" || strip(body) === strip(jobPayload);
+}
+
+/**
+ * Read a site's unfinished job from KV, if any (finished or stale jobs don't count)
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @returns {Promise<PingJob | null>} The active job or null
+ */
+async function readActiveJob(env: RuntimeEnv, site: SiteConfig): Promise<PingJob | null> {
+	const job = (await env.XMLRPC_PING_KV.get(siteKeys(site).job, "json")) as PingJob | null;
+	if (!job || job.finishedAt) return null;
+	if (Date.now() - job.updatedAt > JOB_STALE_MS) return null;
+	return job;
+}
+
+/**
+ * Strip the heavy fields from a job for responses and /health
+ * @param {PingJob} job The job
+ * @returns {JobProgress} The job without its payload and accumulated results
+ */
+function jobProgress(job: PingJob): JobProgress {
+	return { id: job.id, trigger: job.trigger, deployId: job.deployId, newItems: job.newItems, limit: job.limit, cursor: job.cursor, total: job.total, startedAt: job.startedAt, updatedAt: job.updatedAt, finishedAt: job.finishedAt, batches: job.batches };
+}
+
+/**
+ * Convert an array of ping results to CSV format
+ * @param {Array<PingResult & VerboseFields>} rows The array of ping results
+ * @returns {string} The CSV string
+ */
+function toCsv(rows: Array<PingResult & VerboseFields>): string {
+	const esc = (s: unknown) =>
+		`"${String(s ?? "")
+			.replace(/\r?\n/g, " ")
+			.replace(/"/g, '""')}"`;
+	const header = "url,ok,status,ms,method,error,faultCode,faultString,serviceMessage,bodySnippet,channel,attempts,errorClass,redirects";
+	return [header, ...rows.map((r) => [esc(r.url), esc(r.ok), esc(r.status), esc(r.ms ?? ""), esc(r.method ?? ""), esc(r.error ?? ""), esc(r.faultCode ?? ""), esc(r.faultString ?? ""), esc(r.serviceMessage ?? ""), esc(r.bodySnippet ?? ""), esc(r.channel ?? "xmlrpc"), esc(r.attempts ?? ""), esc(r.errorClass ?? ""), esc(r.redirects?.map((h) => `${h.status} ${h.url}`).join(" -> ") ?? "")].join(","))].join("\r\n");
+}
+
+/**
+ * Convert an array of ping results to NDJSON format
+ * @param {Array<PingResult & VerboseFields>} rows The array of ping results
+ * @returns {string} The NDJSON string
+ */
+function toNdjson(rows: Array<PingResult & VerboseFields>): string {
+	return rows.map((r) => JSON.stringify(r)).join("\n");
+}
+
+/**
+ * Generate XML-RPC request body
+ * @param {string} method The XML-RPC method name
+ * @param {string[]} params The method parameters
+ * @returns {string} The XML-RPC request body
+ */
+function xmlRpc(method: string, params: string[]): string {
+	const paramXml = params.map((p) => `<param><value><string>${escapeXml(String(p))}</string></value></param>`).join("");
+	return `<?xml version="1.0"?>
+<methodCall>
+  <methodName>${method}</methodName>
+  <params>${paramXml}</params>
+</methodCall>`;
+}
+
+/**
+ * Escape XML special characters
+ * @param {string} s The string to escape
+ * @returns {string} The escaped string
+ */
+function escapeXml(s: string): string {
+	return s.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;").replaceAll("'", "&apos;");
+}
+
+// --- Scheduling policy ---
+
+const POLICY_KEY = "xmlrpc:policy"; // PolicyState
+const QUIET_WINDOW_RE = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/;
+const DAY_MINUTES = 24 * 60;
+
+// The KV half of the policy (quiet hours, cooldowns and coalescing come from env): the pause switch and queued runs
+type PolicyState = {
+	pause: { reason: string; at: number; until: number | null } | null; // until: null pauses until resumed
+	queued: Record<string, QueuedRun>; // site id -> the one run waiting for its window (POLICY_COALESCE)
+};
+
+// A held trigger, fired by the cron once the policy lets it through; later held triggers fold into it
+type QueuedRun = { trigger: JobTrigger; deploy?: DeployInfo; payload: Partial<PingPayload>; queuedAt: number; reason: string; count: number };
+
+// Why a real run can't start (or continue) right now
+type PolicyBlock = { reason: string; reopensAt: number | null }; // null: not before someone resumes
+
+// The policy as one site sees it (/health)
+type PolicyView = { pause: PolicyState["pause"]; timezone: string; quietHours: string[]; quietNow: boolean; cooldowns: SiteConfig["cooldowns"]; coalesce: boolean; queued: QueuedRun | null };
+
+/**
+ * Read the policy state; an expired pause reads as none
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<PolicyState>} The state
+ */
+async function readPolicy(env: RuntimeEnv): Promise<PolicyState> {
+	const raw = (await env.XMLRPC_PING_KV.get(POLICY_KEY, "json")) as Partial<PolicyState> | null;
+	const pause = raw?.pause && (raw.pause.until === null || raw.pause.until > Date.now()) ? raw.pause : null;
+	return { pause, queued: raw?.queued ?? {} };
+}
+
+/**
+ * Write the policy state
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {PolicyState} state The state
+ * @returns {Promise<void>}
+ */
+function savePolicy(env: RuntimeEnv, state: PolicyState): Promise<void> {
+	return env.XMLRPC_PING_KV.put(POLICY_KEY, JSON.stringify(state));
+}
+
+/**
+ * Parse QUIET_HOURS into [start, end) minute-of-day windows; a window with start > end wraps past midnight.
+ * Malformed entries are dropped.
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Array<[number, number]>} The windows
+ */
+function quietWindows(env: RuntimeEnv): Array<[number, number]> {
+	return (env.QUIET_HOURS ?? "").split(",").flatMap((part): Array<[number, number]> => {
+		const m = QUIET_WINDOW_RE.exec(part.trim());
+		if (!m || Number(m[2]) > 59 || Number(m[4]) > 59) return [];
+		const start = Number(m[1]) * 60 + Number(m[2]);
+		const end = Number(m[3]) * 60 + Number(m[4]);
+		return start < DAY_MINUTES && end <= DAY_MINUTES && start !== end ? [[start, end]] : [];
+	});
+}
+
+/**
+ * POLICY_TIMEZONE when the runtime knows the zone, UTC otherwise
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {string} The IANA zone name
+ */
+function policyTimeZone(env: RuntimeEnv): string {
+	try {
+		return new Intl.DateTimeFormat("en-US", { timeZone: env.POLICY_TIMEZONE || "UTC" }).resolvedOptions().timeZone;
+	} catch {
+		return "UTC";
+	}
+}
+
+/**
+ * Minutes since midnight in a time zone
+ * @param {number} ms The time
+ * @param {string} timeZone The IANA zone
+ * @returns {number} 0-1439
+ */
+function minuteOfDay(ms: number, timeZone: string): number {
+	const parts = new Intl.DateTimeFormat("en-US", { timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).formatToParts(ms);
+	const get = (type: string): number => Number(parts.find((p) => p.type === type)?.value ?? 0);
+	return (get("hour") % 24) * 60 + get("minute");
+}
+
+/**
+ * Format a minute of the day as HH:MM
+ * @param {number} minutes Minutes since midnight
+ * @returns {string} e.g. "07:30"
+ */
+function fmtMinutes(minutes: number): string {
+	return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * The quiet window a time falls in, if any, and when it ends (to the minute; a DST switch inside the window shifts it)
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {number} now The time
+ * @returns {PolicyBlock | null} The block, or null outside quiet hours
+ */
+function quietBlock(env: RuntimeEnv, now: number): PolicyBlock | null {
+	const windows = quietWindows(env);
+	if (!windows.length) return null;
+	const tz = policyTimeZone(env);
+	const minute = minuteOfDay(now, tz);
+	for (const [start, end] of windows) {
+		const inside = start < end ? minute >= start && minute < end : minute >= start || minute < end;
+		if (!inside) continue;
+		const left = (end - minute + DAY_MINUTES) % DAY_MINUTES;
+		return { reason: `quiet hours (${fmtMinutes(start)}-${fmtMinutes(end)} ${tz})`, reopensAt: now - (now % 60_000) + left * 60_000 };
+	}
+	return null;
+}
+
+/**
+ * Whether the policy lets a real run start (or, with no trigger, the active job continue) now: the pause switch,
+ * then quiet hours, then the trigger's cooldown since the site's last start. The lock taken by doPing / the
+ * coordinator still has the last word on cooldowns.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @param {JobTrigger | null} trigger What wants to start a run, or null for a continuation
+ * @returns {Promise<PolicyBlock | null>} Why not, or null when the run may go
+ */
+async function checkPolicy(env: RuntimeEnv, site: SiteConfig, trigger: JobTrigger | null): Promise<PolicyBlock | null> {
+	const now = Date.now();
+	const { pause } = await readPolicy(env);
+	if (pause) return { reason: `paused${pause.reason ? `: ${pause.reason}` : ""}`, reopensAt: pause.until };
+	const quiet = quietBlock(env, now);
+	if (quiet || !trigger) return quiet;
+	const lockedAt = await storage(env).lockedAt(site);
+	const cooldownMs = cooldownFor(site, trigger) * 1000;
+	return lockedAt && now - lockedAt < cooldownMs ? { reason: `rate-limited (<=1 per ${cooldownFor(site, trigger)}s)`, reopensAt: lockedAt + cooldownMs } : null;
+}
+
+/**
+ * Hold back a start the policy blocked. With POLICY_COALESCE="1" it's folded into the site's queued run (the newest
+ * trigger and payload win; new feed items add up) and its deploy is marked as seen, so detectors and webhooks don't
+ * report it again; otherwise it's just skipped.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @param {PolicyBlock} block Why it can't start
+ * @param {Pick<QueuedRun, "trigger" | "deploy" | "payload">} run What would have started
+ * @returns {Promise<string>} The skip reason
+ */
+async function deferRun(env: RuntimeEnv, site: SiteConfig, block: PolicyBlock, run: Pick<QueuedRun, "trigger" | "deploy" | "payload">): Promise<string> {
+	const coalesce = env.POLICY_COALESCE === "1";
+	await recordMetrics(env, (m) => bump(m.runs, `${site.id} ${run.trigger} ${coalesce ? "queued" : "skipped"}`));
+	if (!coalesce) return block.reason;
+
+	const state = await readPolicy(env);
+	const prev = state.queued[site.id];
+	state.queued[site.id] = { ...run, deploy: mergeDeploys(prev?.deploy, run.deploy), queuedAt: prev?.queuedAt ?? Date.now(), reason: block.reason, count: (prev?.count ?? 0) + 1 };
+	await savePolicy(env, state);
+	if (run.deploy) {
+		await storage(env).setLastSeen(site, run.deploy.id);
+		if (run.deploy.newItems) await markFeedItemsSeen(env, site, run.deploy.newItems);
+	}
+	return `${block.reason}; queued${block.reopensAt ? ` until ${new Date(block.reopensAt).toISOString()}` : ""}`;
+}
+
+/**
+ * Fold a newer deploy into a queued one: the newer id, with the new feed items of both
+ * @param {DeployInfo | undefined} prev The queued deploy
+ * @param {DeployInfo | undefined} next The newer deploy
+ * @returns {DeployInfo | undefined} The merged deploy
+ */
+function mergeDeploys(prev: DeployInfo | undefined, next: DeployInfo | undefined): DeployInfo | undefined {
+	if (!prev || !next) return next ?? prev;
+	const items = [...(next.newItems ?? []), ...(prev.newItems ?? []).filter((i) => !next.newItems?.some((n) => n.id === i.id))];
+	return { ...next, newItems: items.length ? items : undefined };
+}
+
+/**
+ * Start the first queued run the policy now lets through, at most one per cron tick.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig[]} sites The sites that may start one (no active job)
+ * @param {number} budget Subrequests left for the first batch
+ * @returns {Promise<number>} Subrequests the started run's first batch used (0: none started)
+ */
+async function fireQueuedRun(env: RuntimeEnv, sites: SiteConfig[], budget: number): Promise<number> {
+	const state = await readPolicy(env);
+	for (const site of sites) {
+		const run = state.queued[site.id];
+		if (!run || (await checkPolicy(env, site, run.trigger))) continue;
+		delete state.queued[site.id];
+		await savePolicy(env, state);
+		const res = await runJob(env, site, { op: "start", trigger: run.trigger, deployId: run.deploy?.id ?? null, newItems: run.deploy?.newItems?.map((i) => i.url), payload: run.payload, opts: { budget: Math.max(1, budget) } });
+		if (res.status === "done") return res.subrequestsUsed ?? 0;
+		state.queued[site.id] = run; // lost a race for the lock, or the batch failed: keep it for the next tick
+		await savePolicy(env, state);
+	}
+	return 0;
+}
+
+/**
+ * The policy as it applies to one site
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @returns {Promise<PolicyView>} The view
+ */
+async function readPolicyView(env: RuntimeEnv, site: SiteConfig): Promise<PolicyView> {
+	const state = await readPolicy(env);
+	return {
+		pause: state.pause,
+		timezone: policyTimeZone(env),
+		quietHours: quietWindows(env).map(([start, end]) => `${fmtMinutes(start)}-${fmtMinutes(end)}`),
+		quietNow: !!quietBlock(env, Date.now()),
+		cooldowns: site.cooldowns,
+		coalesce: env.POLICY_COALESCE === "1",
+		queued: state.queued[site.id] ?? null,
+	};
+}
+
+/**
+ * Scheduling policy API (caller already authorized).
+ * - GET    /policy               → pause state, quiet hours, and each site's cooldowns and queued run
+ * - POST   /policy/pause         → pause real runs `{ reason?, minutes? | until? }` (until: ISO time or ms; neither: until resumed)
+ * - POST   /policy/resume        → lift the pause (queued runs fire on the next cron tick)
+ * - DELETE /policy/queue?site=…  → drop a site's queued run (all sites without `site`)
+ * @param {Request} request The request
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {URL} url The parsed request URL
+ * @param {SiteConfig[]} sites The site registry
+ * @returns {Promise<Response>} The response
+ */
+async function handlePolicyApi(request: Request, env: RuntimeEnv, url: URL, sites: SiteConfig[]): Promise<Response> {
+	const headers = { "Cache-Control": "no-store" };
+	const state = await readPolicy(env);
+	const route = `${request.method} ${url.pathname}`;
+
+	if (route === "GET /policy") {
+		const { pause, timezone, quietHours, quietNow, coalesce } = await readPolicyView(env, sites[0]);
+		return Response.json({ pause, timezone, quietHours, quietNow, coalesce, sites: sites.map((s) => ({ id: s.id, cooldowns: s.cooldowns, queued: state.queued[s.id] ?? null })) }, { headers });
+	}
+
+	if (route === "POST /policy/pause") {
+		const body = (await safeJson(request)) as { reason?: unknown; minutes?: unknown; until?: unknown };
+		const now = Date.now();
+		const until = typeof body.minutes === "number" && body.minutes > 0 ? now + body.minutes * 60_000 : typeof body.until === "number" || typeof body.until === "string" ? new Date(body.until).getTime() : null;
+		if (until !== null && !(until > now)) return Response.json({ error: "`until` must be a time in the future" }, { status: 400, headers });
+		state.pause = { reason: typeof body.reason === "string" ? body.reason.trim().slice(0, 200) : "", at: now, until };
+		await savePolicy(env, state);
+		await appendAudit(env, "policy.pause", state.pause);
+		return Response.json({ pause: state.pause }, { headers });
+	}
+
+	if (route === "POST /policy/resume") {
+		const was = state.pause;
+		state.pause = null;
+		await savePolicy(env, state);
+		if (was) await appendAudit(env, "policy.resume", { pausedAt: was.at, reason: was.reason });
+		return Response.json({ pause: null, queued: Object.keys(state.queued) }, { headers });
+	}
+
+	if (route === "DELETE /policy/queue") {
+		const siteId = url.searchParams.get("site");
+		const dropped = Object.keys(state.queued).filter((id) => !siteId || id === siteId);
+		for (const id of dropped) delete state.queued[id];
+		if (dropped.length) {
+			await savePolicy(env, state);
+			await appendAudit(env, "policy.dequeue", { sites: dropped });
+		}
+		return Response.json({ dropped }, { headers });
+	}
+
+	return Response.json({ error: "not found" }, { status: 404, headers });
+}
+
+// --- Coordinator (Durable Object) ---
+
+const COORDINATOR_BATCH_GAP_MS = 1000; // pause between alarm-driven batches
+
+// What runJob asks for: a new job (skipped while one is active or the site's slot is taken), the same without its first
+// batch ("open": the coordinator's alarm or the next cron tick runs it), or the active job's next batch
+type JobRequest = { op: "start" | "open" | "continue"; trigger?: JobTrigger; deployId?: string | null; newItems?: string[]; payload?: Partial<PingPayload>; opts?: Omit<PingOpts, "job" | "dryRun"> };
+
+/**
+ * Start a job or run the next batch of the active one. With PING_COORDINATOR bound this goes through the site's
+ * PingCoordinator (one per site id), which grants the rate-limit slot atomically and runs the remaining batches on
+ * alarms, each with a fresh subrequest budget; otherwise the batch runs in this invocation.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @param {JobRequest} req What to run
+ * @returns {Promise<DoPingResult>} The batch result; `subrequestsUsed` is what this invocation spent (1 through the coordinator)
+ */
+async function runJob(env: RuntimeEnv, site: SiteConfig, req: JobRequest): Promise<DoPingResult> {
+	if (!env.PING_COORDINATOR) return runBatch(env, site, req);
+	const stub = env.PING_COORDINATOR.get(env.PING_COORDINATOR.idFromName(site.id));
+	const opts = { ...req.opts, budget: undefined }; // the object's own invocation gets the full SUBREQ_BUDGET
+	const res = await stub.fetch("https://coordinator/", { method: "POST", body: JSON.stringify({ siteId: site.id, ...req, opts }) });
+	// The pings went out of the object's budget: this invocation only spent the one call to it
+	return { ...((await res.json()) as DoPingResult), subrequestsUsed: 1 };
+}
+
+/**
+ * Run one batch for a JobRequest in the current invocation
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @param {JobRequest} req What to run
+ * @returns {Promise<DoPingResult>} The batch result (a new job takes the site's lock; callers check the policy before starting one)
+ */
+async function runBatch(env: RuntimeEnv, site: SiteConfig, req: JobRequest): Promise<DoPingResult> {
+	const active = await readActiveJob(env, site);
+	if (req.op === "continue") {
+		if (!active) return { status: "skipped", reason: "no active job" };
+		const block = await checkPolicy(env, site, null); // a pause or quiet hours hold the rest of the job too
+		return block ? { status: "skipped", reason: block.reason } : doPing(env, site, active.payload, { ...req.opts, job: active });
+	}
+	if (active) return { status: "skipped", reason: "job in progress" };
+	const trigger = req.trigger ?? "manual";
+	if (!(await storage(env).acquireLock(site, trigger))) {
+		await recordMetrics(env, (m) => bump(m.runs, `${site.id} ${trigger} skipped`));
+		return { status: "skipped", reason: `rate-limited (<=1 per ${cooldownFor(site, trigger)}s)` };
+	}
+	const job = newJob(trigger, req.deployId ?? null, req.payload ?? {}, req.opts?.cursor, req.opts?.limit);
+	if (req.newItems) job.newItems = req.newItems;
+	if (req.op === "open") {
+		await env.XMLRPC_PING_KV.put(siteKeys(site).job, JSON.stringify(job), { expirationTtl: 7 * 24 * 3600 });
+		return { status: "done", job: jobProgress(job), subrequestsUsed: 0 };
+	}
+	return doPing(env, site, req.payload ?? {}, { ...req.opts, job });
+}
+
+/**
+ * Owns the ping lifecycle of one site (addressed by site id). Durable Object storage is strongly consistent and
+ * requests to one object are serialized around storage calls, so the check-and-set of `slotAt` can't race the
+ * way KV's get-then-put can. After the first batch (or an "open"), the rest of the job runs on alarms until every endpoint was hit;
+ * results accumulate on the job (KV) and doPing records the run as done after the last batch.
+ */
+export class PingCoordinator {
+	private readonly state: DurableObjectState;
+	private readonly env: RuntimeEnv;
+	private busy = false; // a batch is in flight (pings don't hold the input gate, so requests can interleave there)
+
+	/**
+	 * @param {DurableObjectState} state The object's state and storage
+	 * @param {RuntimeEnv} env The runtime environment
+	 */
+	constructor(state: DurableObjectState, env: RuntimeEnv) {
+		this.state = state;
+		this.env = env;
+	}
+
+	/**
+	 * Handle a JobRequest (`{ siteId, ...JobRequest }`) from runJob
+	 * @param {Request} request The request from runJob
+	 * @returns {Promise<Response>} The DoPingResult as JSON
+	 */
+	async fetch(request: Request): Promise<Response> {
+		const req = (await request.json()) as JobRequest & { siteId: string };
+		const site = await findSite(this.env, req.siteId);
+		if (!site) return Response.json({ status: "skipped", reason: `unknown site: ${req.siteId}` } satisfies DoPingResult);
+		await this.state.storage.put("siteId", site.id);
+		const trigger = req.trigger ?? "manual";
+		const slotAt = (await this.state.storage.get<number>("slotAt")) ?? 0;
+		if (req.op !== "continue" && Date.now() - slotAt < cooldownFor(site, trigger) * 1000) {
+			await recordMetrics(this.env, (m) => bump(m.runs, `${site.id} ${trigger} skipped`));
+			return Response.json({ status: "skipped", reason: `rate-limited (<=1 per ${cooldownFor(site, trigger)}s)` } satisfies DoPingResult);
+		}
+		if (this.busy) return Response.json({ status: "skipped", reason: "batch in progress" } satisfies DoPingResult);
+		if (req.op !== "continue") await this.state.storage.put("slotAt", Date.now());
+		let res: DoPingResult;
+		try {
+			res = await this.batch(site, req);
+		} catch (e) {
+			res = { status: "error", reason: String(e) };
+		}
+		// A start that didn't run (job in progress, a lock taken outside the coordinator) or threw gives the slot back
+		if (req.op !== "continue" && res.status !== "done") await this.state.storage.put("slotAt", slotAt);
+		return Response.json(res);
+	}
+
+	/**
+	 * Run the active job's next batch
+	 * @returns {Promise<void>}
+	 */
+	async alarm(): Promise<void> {
+		const siteId = await this.state.storage.get<string>("siteId");
+		const site = siteId ? await findSite(this.env, siteId) : undefined;
+		if (!site) return;
+		if (this.busy) {
+			await this.state.storage.setAlarm(Date.now() + COORDINATOR_BATCH_GAP_MS);
+			return;
+		}
+		await this.batch(site, { op: "continue" });
+	}
+
+	/**
+	 * Run one batch and schedule the next one while the job is unfinished
+	 * @param {SiteConfig} site The site
+	 * @param {JobRequest} req What to run
+	 * @returns {Promise<DoPingResult>} The batch result
+	 */
+	private async batch(site: SiteConfig, req: JobRequest): Promise<DoPingResult> {
+		this.busy = true;
+		try {
+			const res = await runBatch(this.env, site, req);
+			if (res.job && !res.job.finishedAt) await this.state.storage.setAlarm(Date.now() + COORDINATOR_BATCH_GAP_MS);
+			return res;
+		} finally {
+			this.busy = false;
+		}
+	}
+}
+
+// --- XML-RPC response parsing ---
+
+type XmlToken = { kind: "open" | "close" | "empty"; name: string; attrs: string } | { kind: "text"; text: string };
+
+// CDATA | tag (open, close or self-closing, raw attributes kept) | text run
+const XML_TOKEN_RE = /<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([A-Za-z_][\w.:-]*)([^>]*?)(\/?)>|([^<]+)/g;
+
+/**
+ * Split an XML document into tag/text tokens.
+ * Workers have no DOMParser, and XML-RPC and feeds only need elements, text and a few attributes, so a regex tokenizer is enough.
+ * @param {string} xml The raw XML
+ * @returns {XmlToken[]} The tokens, in document order
+ */
+function tokenizeXml(xml: string): XmlToken[] {
+	const src = xml
+		.replace(/<\?[\s\S]*?\?>/g, "")
+		.replace(/<!--[\s\S]*?-->/g, "")
+		.replace(/<!DOCTYPE[^>]*>/gi, "");
+	const tokens: XmlToken[] = [];
+	for (const m of src.matchAll(XML_TOKEN_RE)) {
+		if (m[1] !== undefined) tokens.push({ kind: "text", text: m[1] });
+		else if (m[3]) tokens.push({ kind: m[2] ? "close" : m[5] ? "empty" : "open", name: m[3], attrs: m[4] });
+		else if (m[6] !== undefined) tokens.push({ kind: "text", text: unescapeXml(m[6]) });
+	}
+	return tokens;
+}
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ * @param {string} s The escaped text
+ * @returns {string} The decoded text
+ */
+function unescapeXml(s: string): string {
+	return s.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|quot|apos|amp);/gi, (whole: string, ent: string) => {
+		const e = ent.toLowerCase();
+		if (e === "lt") return "<";
+		if (e === "gt") return ">";
+		if (e === "quot") return '"';
+		if (e === "apos") return "'";
+		if (e === "amp") return "&";
+		const code = e.startsWith("#x") ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+		return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : whole;
+	});
+}
+
+/**
+ * Parse an XML-RPC <methodResponse> (params or fault).
+ * @param {string} xml The raw response body
+ * @returns {XmlRpcResponse | null} The decoded response, or null when the body is not a methodResponse
+ */
+function parseXmlRpcResponse(xml: string): XmlRpcResponse | null {
+	const msg = parseXmlRpcMessage(xml, "methodResponse");
+	if (!msg) return null;
+	return msg.fault ? { params: msg.params, fault: msg.fault } : { params: msg.params };
+}
+
+/**
+ * Parse an XML-RPC <methodCall>
+ * @param {string} xml The raw request body
+ * @returns {XmlRpcCall | null} The decoded call, or null when the body is not a methodCall with a method name
+ */
+function parseXmlRpcCall(xml: string): XmlRpcCall | null {
+	const msg = parseXmlRpcMessage(xml, "methodCall");
+	return msg?.methodName ? { methodName: msg.methodName, params: msg.params } : null;
+}
+
+/**
+ * Parse an XML-RPC message: <methodCall> (method name and params) or <methodResponse> (params or fault).
+ * Tolerant to whitespace and unknown wrappers, strict about structure inside <value>.
+ * @param {string} xml The raw body
+ * @param {"methodCall" | "methodResponse"} root The expected root element
+ * @returns {(XmlRpcResponse & { methodName: string }) | null} The decoded message (methodName is "" for responses), or null when malformed
+ */
+function parseXmlRpcMessage(xml: string, root: "methodCall" | "methodResponse"): (XmlRpcResponse & { methodName: string }) | null {
+	// Ignore whitespace-only text between elements; inside <string> or an untyped <value> it's the value itself
+	const all = tokenizeXml(xml);
+	const isTag = (t: XmlToken | undefined): boolean => !!t && t.kind !== "text";
+	const keepsText = (k: number): boolean => {
+		let before = k - 1;
+		while (before >= 0 && !isTag(all[before])) before--;
+		let after = k + 1;
+		while (after < all.length && !isTag(all[after])) after++;
+		const prev = all[before];
+		const next = all[after];
+		return prev?.kind === "open" && (prev.name === "string" || (prev.name === "value" && next?.kind === "close" && next.name === "value"));
+	};
+	const tokens = all.filter((t, k) => t.kind !== "text" || t.text.trim() !== "" || keepsText(k));
+	const rootIdx = tokens.findIndex((t) => t.kind === "open" && t.name === root);
+	if (rootIdx < 0) return null;
+	let i = rootIdx + 1;
+
+	const peek = (): XmlToken | undefined => tokens[i];
+	const isOpen = (name: string): boolean => {
+		const t = peek();
+		return !!t && (t.kind === "open" || t.kind === "empty") && t.name === name;
+	};
+	const expectOpen = (name: string): boolean => {
+		const t = peek();
+		if (!t || t.kind !== "open" || t.name !== name) throw new Error(`expected <${name}>`);
+		i++;
+		return true;
+	};
+	const expectClose = (name: string): void => {
+		const t = peek();
+		if (!t || t.kind !== "close" || t.name !== name) throw new Error(`expected </${name}>`);
+		i++;
+	};
+	const readText = (name: string): string => {
+		// <name/> | <name></name> | <name>text</name>
+		const t = peek();
+		if (t?.kind === "empty" && t.name === name) {
+			i++;
+			return "";
+		}
+		expectOpen(name);
+		let text = "";
+		while (peek()?.kind === "text") text += (tokens[i++] as { text: string }).text;
+		expectClose(name);
+		return text;
+	};
+
+	/**
+	 * Parse one <value> element (the cursor sits on its opening tag)
+	 * @returns {XmlRpcValue} The decoded value
+	 */
+	const parseValue = (): XmlRpcValue => {
+		const t = peek();
+		if (t?.kind === "empty" && t.name === "value") {
+			i++;
+			return "";
+		}
+		expectOpen("value");
+		const inner = peek();
+		// Untyped value => string
+		if (!inner || inner.kind === "text" || inner.kind === "close") {
+			let text = "";
+			while (peek()?.kind === "text") text += (tokens[i++] as { text: string }).text;
+			expectClose("value");
+			return text;
+		}
+		let v: XmlRpcValue;
+		switch (inner.name) {
+			case "string":
+			case "dateTime.iso8601":
+			case "base64":
+				v = readText(inner.name);
+				break;
+			case "int":
+			case "i4":
+			case "i8":
+			case "double":
+				v = Number(readText(inner.name).trim());
+				break;
+			case "boolean":
+				v = readText(inner.name).trim() === "1";
+				break;
+			case "nil":
+				readText("nil");
+				v = null;
+				break;
+			case "struct": {
+				const obj: { [member: string]: XmlRpcValue } = {};
+				if (inner.kind === "empty") {
+					i++;
+				} else {
+					expectOpen("struct");
+					while (isOpen("member")) {
+						expectOpen("member");
+						const name = readText("name").trim();
+						obj[name] = parseValue();
+						expectClose("member");
+					}
+					expectClose("struct");
+				}
+				v = obj;
+				break;
+			}
+			case "array": {
+				const arr: XmlRpcValue[] = [];
+				expectOpen("array");
+				if (isOpen("data")) {
+					if (peek()?.kind === "empty") {
+						i++;
+					} else {
+						expectOpen("data");
+						while (isOpen("value")) arr.push(parseValue());
+						expectClose("data");
+					}
+				}
+				expectClose("array");
+				v = arr;
+				break;
+			}
+			default:
+				throw new Error(`unknown type <${inner.name}>`);
+		}
+		expectClose("value");
+		return v;
+	};
+
+	try {
+		const methodName = root === "methodCall" ? readText("methodName").trim() : "";
+		if (root === "methodResponse" && isOpen("fault")) {
+			expectOpen("fault");
+			const f = parseValue();
+			const struct = f && typeof f === "object" && !Array.isArray(f) ? f : {};
+			return { methodName, params: [], fault: { code: Number(struct.faultCode ?? 0), string: String(struct.faultString ?? "") } };
+		}
+		const params: XmlRpcValue[] = [];
+		if (isOpen("params") && peek()?.kind === "open") {
+			expectOpen("params");
+			while (isOpen("param")) {
+				expectOpen("param");
+				params.push(parseValue());
+				expectClose("param");
+			}
+			expectClose("params");
+		}
+		return { methodName, params };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Decide whether a ping service accepted the ping, based on its response body.
+ * Accepted = a methodResponse without <fault> whose struct (if any) doesn't carry a truthy flerror.
+ * @param {string} body The raw response body
+ * @returns {PingOutcome} The outcome and any fault / service message found
+ */
+function interpretPingResponse(body: string): PingOutcome {
+	const parsed = parseXmlRpcResponse(body);
+	if (!parsed) return { accepted: false, error: "not an XML-RPC response" };
+	if (parsed.fault) return { accepted: false, faultCode: parsed.fault.code, faultString: parsed.fault.string };
+
+	const first = parsed.params[0];
+	if (first && typeof first === "object" && !Array.isArray(first)) {
+		const flerror = first.flerror;
+		// flerror is usually a boolean, but some services send it as int or string
+		const failed = flerror === true || flerror === 1 || flerror === "1" || flerror === "true";
+		const message = typeof first.message === "string" ? first.message : undefined;
+		return { accepted: !failed, serviceMessage: message };
+	}
+	return { accepted: true };
+}
+
+/**
+ * Safely parse JSON from a request
+ * @param {Request} req The request object
+ * @returns {Promise<object>} The parsed JSON object or an empty object
+ */
+async function safeJson(req: Request): Promise<object> {
+	try {
+		return await req.json();
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * No operation performed
+ * @returns {Promise<void>} The scheduled event handler
+ */
+async function noop(): Promise<void> {
+	// No operation performed
+}
+
+// --- XML-RPC relay ---
+
+const RELAY_SITES_KEY = "xmlrpc:relay-sites"; // optional allow-list (JSON array of RelayEntry), wins over RELAY_SITES
+const RELAY_PING_METHODS = ["weblogUpdates.ping", "weblogUpdates.extendedPing"];
+
+// One allow-listed sender: pings for URLs on its host, under its path (http or https), are relayed
+type RelayEntry = { url: string; name?: string; rateLimitSeconds?: number }; // rateLimitSeconds: default 3600, min 60
+
+/**
+ * Load the relay allow-list (`xmlrpc:relay-sites` in KV, then the RELAY_SITES var) as sites of their own, with
+ * `relay-…` ids: each gets its own lock (rateLimitSeconds for every trigger), job and run history, and pings the
+ * shared endpoint list. Plain strings are read as `{ url }`; entries without an http(s) URL are dropped.
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<SiteConfig[]>} The relay sites (none: the relay is off)
+ */
+async function relaySites(env: RuntimeEnv): Promise<SiteConfig[]> {
+	let raw = (await env.XMLRPC_PING_KV.get(RELAY_SITES_KEY, "json")) as unknown;
+	if (!Array.isArray(raw) && env.RELAY_SITES) {
+		try {
+			raw = JSON.parse(env.RELAY_SITES);
+		} catch {
+			raw = null;
+		}
+	}
+	if (!Array.isArray(raw)) return [];
+
+	const sites: SiteConfig[] = [];
+	for (const item of raw as Array<string | Partial<RelayEntry> | null>) {
+		const entry = typeof item === "string" ? { url: item } : item;
+		const url = typeof entry?.url === "string" ? httpUrl(entry.url) : null;
+		if (!entry || !url) continue;
+		const id = `relay-${`${url.hostname}${url.pathname}`
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-+|-+$/g, "")}`.slice(0, 64);
+		if (sites.some((s) => s.id === id)) continue;
+		const rateLimitSeconds = Math.max(60, typeof entry.rateLimitSeconds === "number" && Number.isFinite(entry.rateLimitSeconds) ? entry.rateLimitSeconds : HOUR);
+		sites.push({
+			id,
+			name: typeof entry.name === "string" ? entry.name : url.hostname,
+			url: url.href,
+			feed: null,
+			detector: "http", // never polled: relay sites only run when they ping
+			rateLimitSeconds,
+			cooldowns: { cron: rateLimitSeconds, manual: rateLimitSeconds },
+		});
+	}
+	return sites;
+}
+
+/**
+ * Parse an http(s) URL
+ * @param {string} raw The URL
+ * @returns {URL | null} The URL, or null when malformed or another scheme
+ */
+function httpUrl(raw: string): URL | null {
+	try {
+		const url = new URL(raw.trim());
+		return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * The allow-listed relay site a URL belongs to: same host, and a path at or under the entry's path
+ * @param {SiteConfig[]} sites The relay sites
+ * @param {string} raw The URL from the ping
+ * @returns {SiteConfig | null} The site, or null when the URL isn't allowed
+ */
+function matchRelaySite(sites: SiteConfig[], raw: string): SiteConfig | null {
+	const url = httpUrl(raw);
+	if (!url) return null;
+	return (
+		sites.find((s) => {
+			const base = new URL(s.url);
+			const prefix = base.pathname.endsWith("/") ? base.pathname : `${base.pathname}/`;
+			return base.hostname === url.hostname.toLowerCase() && (url.pathname === base.pathname || `${url.pathname}/`.startsWith(prefix));
+		}) ?? null
+	);
+}
+
+/**
+ * Relay endpoint (POST /RPC2): accept `weblogUpdates.ping(name, url)` and `weblogUpdates.extendedPing(name, url,
+ * [changesUrl,] feedUrl[, tags])` from allow-listed sites and fan them out to the endpoint list as a job, like a
+ * manual trigger. The answer is the usual `{ flerror, message }` struct; the relay only opens the job, and its batches
+ * run on the coordinator's alarms or the next cron ticks. The scheduling policy and the site's own rate limit apply.
+ * Malformed calls get XML-RPC faults.
+ * @param {Request} request The request
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<Response>} The XML-RPC response (404 while the allow-list is empty)
+ */
+async function handleRelay(request: Request, env: RuntimeEnv): Promise<Response> {
+	const sites = await relaySites(env);
+	if (!sites.length) return new Response("Relay not configured", { status: 404 });
+	if (request.method !== "POST") return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST" } });
+
+	const call = parseXmlRpcCall(await request.text());
+	if (!call) return xmlRpcFault(-32700, "parse error: expected an XML-RPC methodCall");
+	if (call.methodName === "system.listMethods") return xmlRpcReply(["system.listMethods", ...RELAY_PING_METHODS]);
+	if (!RELAY_PING_METHODS.includes(call.methodName)) return xmlRpcFault(-32601, `unsupported method: ${call.methodName}`);
+	const [name, siteUrl, ...rest] = call.params.map((p) => (typeof p === "string" ? p.trim() : ""));
+	if (!name || !siteUrl) return xmlRpcFault(-32602, "expected a site name and a site URL");
+
+	const site = matchRelaySite(sites, siteUrl);
+	if (!site) return xmlRpcReply({ flerror: true, message: "This site is not on the relay's allow-list." });
+
+	// extendedPing: (name, url, feed) or (name, url, changesUrl, feed[, tags])
+	const extended = call.methodName === "weblogUpdates.extendedPing";
+	const feedUrl = extended ? httpUrl((rest.length >= 2 ? rest[1] : rest[0]) ?? "")?.href : undefined;
+	const changesUrl = extended && rest.length >= 2 && matchRelaySite([site], rest[0]) ? rest[0] : null;
+	const payload: Partial<PingPayload> = { siteName: name.slice(0, 200), siteUrl, feedUrl: feedUrl ?? null, urls: changesUrl ? [changesUrl] : undefined };
+
+	if (await readActiveJob(env, site)) return xmlRpcReply({ flerror: true, message: "The previous ping for this site is still being relayed." });
+	const block = await checkPolicy(env, site, "relay");
+	if (block) {
+		const reason = await deferRun(env, site, block, { trigger: "relay", payload });
+		return xmlRpcReply({ flerror: env.POLICY_COALESCE !== "1", message: `Not relayed now: ${reason}.` });
+	}
+	const res = await runJob(env, site, { op: "open", trigger: "relay", payload });
+	if (res.status !== "done") return xmlRpcReply({ flerror: true, message: `Not relayed now: ${res.reason ?? "the job didn't start"}.` });
+	return xmlRpcReply({ flerror: false, message: "Thanks for the ping." });
+}
+
+/**
+ * Encode a value as an XML-RPC <value>
+ * @param {XmlRpcValue} v The value
+ * @returns {string} The XML
+ */
+function toXmlRpcValue(v: XmlRpcValue): string {
+	if (v === null) return "<value><nil/></value>";
+	if (typeof v === "boolean") return `<value><boolean>${v ? 1 : 0}</boolean></value>`;
+	if (typeof v === "number") return Number.isInteger(v) ? `<value><int>${v}</int></value>` : `<value><double>${v}</double></value>`;
+	if (typeof v === "string") return `<value><string>${escapeXml(v)}</string></value>`;
+	if (Array.isArray(v)) return `<value><array><data>${v.map(toXmlRpcValue).join("")}</data></array></value>`;
+	return `<value><struct>${Object.entries(v)
+		.map(([k, m]) => `<member><name>${escapeXml(k)}</name>${toXmlRpcValue(m)}</member>`)
+		.join("")}</struct></value>`;
+}
+
+/**
+ * An XML-RPC <methodResponse> with one param
+ * @param {XmlRpcValue} value The result
+ * @returns {Response} The response (XML-RPC answers are always HTTP 200)
+ */
+function xmlRpcReply(value: XmlRpcValue): Response {
+	return xmlRpcMessage(`<params><param>${toXmlRpcValue(value)}</param></params>`);
+}
+
+/**
+ * An XML-RPC fault response
+ * @param {number} faultCode The fault code (-32700 parse error, -32601 unknown method, -32602 bad params)
+ * @param {string} faultString The message
+ * @returns {Response} The response
+ */
+function xmlRpcFault(faultCode: number, faultString: string): Response {
+	return xmlRpcMessage(`<fault>${toXmlRpcValue({ faultCode, faultString })}</fault>`);
+}
+
+/**
+ * Wrap a <methodResponse> body
+ * @param {string} inner The params or fault XML
+ * @returns {Response} The text/xml response
+ */
+function xmlRpcMessage(inner: string): Response {
+	return new Response(`<?xml version="1.0"?>\n<methodResponse>${inner}</methodResponse>`, { headers: { "Content-Type": "text/xml; charset=utf-8", "Cache-Control": "no-store" } });
+}
+
+// --- Detectors ---
+
+/**
+ * Parse an ISO date (or epoch ms) into epoch ms
+ * @param {string | number | undefined} v The value
+ * @returns {number | null} Epoch ms, or null when missing/invalid
+ */
+function toTimestamp(v: string | number | undefined): number | null {
+	const t = typeof v === "number" ? v : v ? Date.parse(v) : NaN;
+	return Number.isFinite(t) ? t : null;
+}
+
+const TRAILING_SLASHES_RE = /\/+$/;
+
+/**
+ * Strip trailing slashes from an API base URL
+ * @param {string | undefined} base The configured base URL
+ * @param {string} fallback The public API base URL
+ * @returns {string} The base URL without a trailing slash
+ */
+function apiBase(base: string | undefined, fallback: string): string {
+	return (base || fallback).replace(TRAILING_SLASHES_RE, "");
+}
+
+// Default (no changes to site repo): latest successful commit on a branch
+/**
+ * Get the latest commit SHA from a GitHub repository branch
+ * @param {RuntimeEnv} env The environment variables (GITHUB_TOKEN is shared by all sites)
+ * @param {SiteConfig} site The site (repo + branch)
+ * @returns {Promise<DeployInfo | null>} The latest commit or null
+ */
+async function latestGithubCommit(env: RuntimeEnv, site: SiteConfig): Promise<DeployInfo | null> {
+	const repo = site.githubRepo;
+	if (!repo) return null;
+	const branch = site.githubBranch || "main";
+	const r = await fetch(`${apiBase(env.GITHUB_API_URL, "https://api.github.com")}/repos/${repo}/branches/${branch}`, {
+		headers: env.GITHUB_TOKEN ? { "Authorization": `Bearer ${env.GITHUB_TOKEN}`, "User-Agent": "xmlrpc-pinger" } : { "User-Agent": "xmlrpc-pinger" },
+	});
+	if (!r.ok) throw new Error(`GitHub API: HTTP ${r.status}`);
+	const j = (await r.json()) as GitHubBranchInfo;
+	const sha = j?.commit?.sha;
+	return sha ? { id: sha, timestamp: toTimestamp(j.commit?.commit?.committer?.date), url: j.commit?.html_url } : null;
+}
+
+// Optional (tighter to actual Pages deploys): latest deploy id
+/**
+ * Get the latest deploy ID from a Cloudflare Pages project
+ * @param {RuntimeEnv} env The environment variables (CLOUDFLARE_API_TOKEN is shared by all sites)
+ * @param {SiteConfig} site The site (account + Pages project)
+ * @returns {Promise<DeployInfo | null>} The latest deploy or null
+ */
+async function latestCloudflareDeploy(env: RuntimeEnv, site: SiteConfig): Promise<DeployInfo | null> {
+	const { CLOUDFLARE_API_TOKEN } = env;
+	const CLOUDFLARE_ACCOUNT_ID = site.cloudflareAccountId;
+	const CLOUDFLARE_PAGES_PROJECT = site.cloudflarePagesProject;
+	if (!CLOUDFLARE_API_TOKEN || !CLOUDFLARE_ACCOUNT_ID || !CLOUDFLARE_PAGES_PROJECT) return null;
+
+	// Note: The CF Pages deployments API returns recent deployments.
+	// We only need the newest one's ID as a stable dedup key.
+	const url = `${apiBase(env.CLOUDFLARE_API_URL, "https://api.cloudflare.com/client/v4")}/accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects/${CLOUDFLARE_PAGES_PROJECT}/deployments?per_page=1`;
+	const r = await fetch(url, { headers: { Authorization: `Bearer ${CLOUDFLARE_API_TOKEN}` } });
+	if (!r.ok) throw new Error(`Cloudflare API: HTTP ${r.status}`);
+	const j = (await r.json()) as CfDeployments;
+
+	// Be tolerant to shape differences
+	const list = Array.isArray(j.result) ? j.result : (j.result?.deployments ?? []);
+	const first: CfDeploy | undefined = Array.isArray(list) ? list[0] : undefined;
+	const id = first?.id ?? first?.deployment_id ?? first?.short_id;
+	return id ? { id, timestamp: toTimestamp(first?.created_on), url: first?.url } : null;
+}
+
+/**
+ * Get the latest commit on a GitLab project branch
+ * @param {RuntimeEnv} env The environment variables (GITLAB_TOKEN is shared by all sites)
+ * @param {SiteConfig} site The site (project + branch)
+ * @returns {Promise<DeployInfo | null>} The latest commit or null
+ */
+async function latestGitlabCommit(env: RuntimeEnv, site: SiteConfig): Promise<DeployInfo | null> {
+	if (!site.gitlabProject) return null;
+	const branch = site.gitlabBranch || "main";
+	const url = `${apiBase(env.GITLAB_API_URL, "https://gitlab.com/api/v4")}/projects/${encodeURIComponent(site.gitlabProject)}/repository/branches/${encodeURIComponent(branch)}`;
+	const r = await fetch(url, { headers: env.GITLAB_TOKEN ? { "PRIVATE-TOKEN": env.GITLAB_TOKEN } : {} });
+	if (!r.ok) throw new Error(`GitLab API: HTTP ${r.status}`);
+	const j = (await r.json()) as GitLabBranchInfo;
+	const id = j?.commit?.id;
+	return id ? { id, timestamp: toTimestamp(j.commit?.committed_date), url: j.commit?.web_url } : null;
+}
+
+/**
+ * Get the latest ready deploy of a Netlify site
+ * @param {RuntimeEnv} env The environment variables (NETLIFY_TOKEN is shared by all sites)
+ * @param {SiteConfig} site The site (Netlify site id)
+ * @returns {Promise<DeployInfo | null>} The latest deploy or null
+ */
+async function latestNetlifyDeploy(env: RuntimeEnv, site: SiteConfig): Promise<DeployInfo | null> {
+	if (!env.NETLIFY_TOKEN || !site.netlifySiteId) return null;
+	const url = `${apiBase(env.NETLIFY_API_URL, "https://api.netlify.com/api/v1")}/sites/${encodeURIComponent(site.netlifySiteId)}/deploys?state=ready&per_page=1`;
+	const r = await fetch(url, { headers: { Authorization: `Bearer ${env.NETLIFY_TOKEN}` } });
+	if (!r.ok) throw new Error(`Netlify API: HTTP ${r.status}`);
+	const list = (await r.json()) as NetlifyDeploy[];
+	const first = Array.isArray(list) ? list[0] : undefined;
+	return first?.id ? { id: first.id, timestamp: toTimestamp(first.created_at), url: first.deploy_ssl_url } : null;
+}
+
+/**
+ * Get the latest ready production deploy of a Vercel project
+ * @param {RuntimeEnv} env The environment variables (VERCEL_TOKEN is shared by all sites)
+ * @param {SiteConfig} site The site (project id, optional team id)
+ * @returns {Promise<DeployInfo | null>} The latest deploy or null
+ */
+async function latestVercelDeploy(env: RuntimeEnv, site: SiteConfig): Promise<DeployInfo | null> {
+	if (!env.VERCEL_TOKEN || !site.vercelProjectId) return null;
+	const qs = new URLSearchParams({ projectId: site.vercelProjectId, target: "production", state: "READY", limit: "1" });
+	if (site.vercelTeamId) qs.set("teamId", site.vercelTeamId);
+	const r = await fetch(`${apiBase(env.VERCEL_API_URL, "https://api.vercel.com")}/v6/deployments?${qs}`, { headers: { Authorization: `Bearer ${env.VERCEL_TOKEN}` } });
+	if (!r.ok) throw new Error(`Vercel API: HTTP ${r.status}`);
+	const first = ((await r.json()) as VercelDeployments).deployments?.[0];
+	return first?.uid ? { id: first.uid, timestamp: toTimestamp(first.created), url: first.url ? `https://${first.url}` : undefined } : null;
+}
+
+/**
+ * Fingerprint a URL (default: the site's sitemap index) by ETag, then Last-Modified, then a SHA-256 of the body.
+ * Works with any host; the body is only read when neither header is present.
+ * @param {RuntimeEnv} _env The environment variables (unused)
+ * @param {SiteConfig} site The site (detectUrl or url)
+ * @returns {Promise<DeployInfo | null>} The fingerprint or null
+ */
+async function httpFingerprint(_env: RuntimeEnv, site: SiteConfig): Promise<DeployInfo | null> {
+	let url: string;
+	try {
+		url = new URL(site.detectUrl || "/sitemap-index.xml", site.url).toString();
+	} catch {
+		return null;
+	}
+	const r = await fetch(url, { headers: { "User-Agent": "xmlrpc-pinger" } });
+	if (!r.ok) throw new Error(`${url}: HTTP ${r.status}`);
+
+	const lastModified = toTimestamp(r.headers.get("Last-Modified") ?? undefined);
+	const etag = r.headers.get("ETag");
+	if (etag || lastModified !== null) {
+		await r.body?.cancel();
+		return { id: etag ? `etag:${etag}` : `last-modified:${lastModified}`, timestamp: lastModified, url };
+	}
+	const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", await r.arrayBuffer()));
+	return { id: `sha256:${toHex(digest)}`, timestamp: null, url };
+}
+
+// --- Feed detector ---
+
+const FEED_SEEN_MAX = 500; // item ids remembered per site (newest first)
+const ATTR_RE = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Read one attribute from a tag's raw attribute string
+ * @param {string} attrs The raw attributes (as captured by tokenizeXml)
+ * @param {string} name The attribute name
+ * @returns {string | undefined} The unescaped value
+ */
+function xmlAttr(attrs: string, name: string): string | undefined {
+	for (const m of attrs.matchAll(ATTR_RE)) if (m[1] === name) return unescapeXml(m[2] ?? m[3] ?? "");
+	return undefined;
+}
+
+/**
+ * Extract the items of an RSS 2.0 or Atom feed, in feed order.
+ * Only direct children of <item>/<entry> are read: guid/id, link (RSS text or Atom alternate href) and the date.
+ * @param {string} xml The raw feed
+ * @returns {FeedItem[]} The items; entries without an id or link are skipped
+ */
+function parseFeedItems(xml: string): FeedItem[] {
+	const items: FeedItem[] = [];
+	let cur: { id?: string; url?: string; date?: string } | null = null;
+	let depth = 0; // 1 = inside <item>/<entry>, 2 = inside one of its direct children
+	let field = ""; // direct child being read
+
+	for (const t of tokenizeXml(xml)) {
+		if (t.kind === "text") {
+			if (cur && depth === 2 && field) {
+				const text = t.text.trim();
+				if (field === "guid" || field === "id") cur.id = (cur.id ?? "") + text;
+				else if (field === "link") cur.url = (cur.url ?? "") + text;
+				else if (field === "pubDate" || field === "published" || field === "updated") cur.date ??= text;
+			}
+			continue;
+		}
+		if (!cur) {
+			if (t.kind === "open" && (t.name === "item" || t.name === "entry")) {
+				cur = {};
+				depth = 1;
+			}
+			continue;
+		}
+		if (t.kind === "close") {
+			depth--;
+			field = "";
+			if (depth === 0) {
+				const url = cur.url || (cur.id?.startsWith("http") ? cur.id : "");
+				const id = cur.id || url;
+				if (id && url) items.push({ id, url, date: toTimestamp(cur.date) });
+				cur = null;
+			}
+			continue;
+		}
+		// Atom: <link rel="alternate" href="…"/> (rel defaults to alternate)
+		if (depth === 1 && t.name === "link" && xmlAttr(t.attrs, "href") && (xmlAttr(t.attrs, "rel") ?? "alternate") === "alternate") cur.url ??= xmlAttr(t.attrs, "href");
+		if (t.kind === "open") {
+			field = depth === 1 ? t.name : "";
+			depth++;
+		}
+	}
+	return items;
+}
+
+/**
+ * Feed-diff detector: reports a deploy only when the site's feed has items that weren't seen before.
+ * The first check only records the current items as a baseline, so old posts never cause a ping.
  * @param {RuntimeEnv} env The environment variables
- * @returns {Promise<{ id: string } | null>} The latest deploy ID or null
+ * @param {SiteConfig} site The site (its feed URL)
+ * @returns {Promise<DeployInfo | null>} The newest new item (plus all new items), or null when nothing is new
+ */
+async function feedDiff(env: RuntimeEnv, site: SiteConfig): Promise<DeployInfo | null> {
+	if (!site.feed) return null;
+	const r = await fetch(site.feed, { headers: { "User-Agent": "xmlrpc-pinger" } });
+	if (!r.ok) throw new Error(`Feed: HTTP ${r.status}`);
+	const items = parseFeedItems(await r.text());
+	if (!items.length) return null;
+
+	const seen = ((await env.XMLRPC_PING_KV.get(siteKeys(site).feedSeen, "json")) as string[] | null) ?? [];
+	if (!seen.length) {
+		await markFeedItemsSeen(env, site, items);
+		return null;
+	}
+	const seenSet = new Set(seen);
+	const fresh = items.filter((i) => !seenSet.has(i.id));
+	if (!fresh.length) return null;
+	return { id: `feed:${fresh[0].id}`, timestamp: fresh[0].date, url: fresh[0].url, newItems: fresh };
+}
+
+/**
+ * Add feed items to the site's seen list (newest first, capped at FEED_SEEN_MAX)
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @param {FeedItem[]} items The items to remember
+ * @returns {Promise<void>}
+ */
+async function markFeedItemsSeen(env: RuntimeEnv, site: SiteConfig, items: FeedItem[]): Promise<void> {
+	const key = siteKeys(site).feedSeen;
+	const seen = ((await env.XMLRPC_PING_KV.get(key, "json")) as string[] | null) ?? [];
+	const ids = items.map((i) => i.id);
+	const merged = [...new Set([...ids, ...seen])].slice(0, FEED_SEEN_MAX);
+	await env.XMLRPC_PING_KV.put(key, JSON.stringify(merged));
+}
+
+// Detector registry: SiteConfig.detector / DETECTOR picks one by name
+const DETECTORS: Record<DetectorName, Detector> = {
+	github: latestGithubCommit,
+	cloudflare: latestCloudflareDeploy,
+	gitlab: latestGitlabCommit,
+	netlify: latestNetlifyDeploy,
+	vercel: latestVercelDeploy,
+	http: httpFingerprint,
+	feed: feedDiff,
+};
+
+/**
+ * Map a configured detector name to a registered one (unknown names fall back to "github")
+ * @param {unknown} name The configured name
+ * @returns {DetectorName} The detector name
+ */
+function toDetectorName(name: unknown): DetectorName {
+	return typeof name === "string" && Object.hasOwn(DETECTORS, name) ? (name as DetectorName) : "github";
+}
+
+// --- Pingback & Webmention ---
+
+const MENTION_QUEUE_KEY = "xmlrpc:mention-queue"; // pending MentionTask[]
+const MENTIONS_KEY = "xmlrpc:mentions"; // MentionState per "source target" pair
+const MENTIONS_MAX = 2000; // newest unsent pair states kept (sent pairs are never dropped)
+const MENTION_MAX_ATTEMPTS = 3;
+const MENTION_TARGETS_MAX = 30; // outbound links taken per post
+const HTML_MAX_CHARS = 512 * 1024;
+const HTML_TAG_RE = /<(a|link)\b([^>]*)>/gi;
+const LINK_HEADER_RE = /<([^>]*)>([^,]*)/g;
+const LINK_REL_RE = /rel\s*=\s*"?([^";]*)"?/i;
+const CONTENT_RE = /<(article|main)\b[\s\S]*?<\/\1>/i;
+
+// A queued unit of work: fetch a post (no target yet) or discover + notify one of its targets
+type MentionTask = { source: string; target?: string };
+
+// What happened for one source -> target pair; `via: null` means the target advertises no endpoint
+type MentionState = { via: "webmention" | "pingback" | null; endpoint?: string; ok: boolean; status: number; error?: string; attempts: number; at: number };
+
+/**
+ * Queue newly published posts for pingback / Webmention sending
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {string[]} posts Post URLs
+ * @returns {Promise<void>}
+ */
+async function enqueueMentions(env: RuntimeEnv, posts: string[]): Promise<void> {
+	const fresh = posts.filter((u) => hostOf(u));
+	if (!fresh.length) return;
+	const queue = ((await env.XMLRPC_PING_KV.get(MENTION_QUEUE_KEY, "json")) as MentionTask[] | null) ?? [];
+	for (const source of fresh) if (!queue.some((t) => t.source === source && !t.target)) queue.push({ source });
+	await env.XMLRPC_PING_KV.put(MENTION_QUEUE_KEY, JSON.stringify(queue));
+}
+
+/**
+ * Work through the mention queue within a subrequest budget: 1 fetch per post, 2 per target (discover + send), plus
+ * one per redirect hop. Sent pairs are never sent again; failed ones are re-queued for a later tick up to MENTION_MAX_ATTEMPTS.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {number} budget Subrequests available
+ * @returns {Promise<void>}
+ */
+async function processMentions(env: RuntimeEnv, budget: number): Promise<void> {
+	const queue = ((await env.XMLRPC_PING_KV.get(MENTION_QUEUE_KEY, "json")) as MentionTask[] | null) ?? [];
+	if (!queue.length) return;
+	const state = ((await env.XMLRPC_PING_KV.get(MENTIONS_KEY, "json")) as Record<string, MentionState> | null) ?? {};
+	const retry: MentionTask[] = [];
+	const maxRedirects = Math.max(0, Math.min(numberOr(env.MAX_REDIRECTS, 3), 10));
+	let left = budget;
+	const spare = (keep: number) => (): boolean => left > keep && left-- > 0; // a redirect hop, while more than `keep` subrequests are left
+
+	while (queue.length && left >= (queue[0].target ? 2 : 1)) {
+		const task = queue.shift() as MentionTask;
+		if (!task.target) {
+			left--;
+			const targets = await extractOutboundLinks(task.source, maxRedirects, spare(0));
+			const todo = targets.filter((target) => {
+				const st = state[`${task.source} ${target}`];
+				return !st || (!st.ok && st.via !== null && st.attempts < MENTION_MAX_ATTEMPTS);
+			});
+			queue.unshift(...todo.map((target) => ({ source: task.source, target })));
+			continue;
+		}
+
+		const key = `${task.source} ${task.target}`;
+		const prev = state[key];
+		left--;
+		const found = await discoverMentionEndpoint(task.target, maxRedirects, spare(1)); // the send keeps its subrequest
+		let next: MentionState;
+		if (!found) next = { via: null, ok: false, status: 0, attempts: (prev?.attempts ?? 0) + 1, at: Date.now() };
+		else {
+			left--;
+			next = { ...(await sendMention(found.via, found.endpoint, task.source, task.target, maxRedirects, spare(0))), via: found.via, endpoint: found.endpoint, attempts: (prev?.attempts ?? 0) + 1, at: Date.now() };
+			if (!next.ok && next.attempts < MENTION_MAX_ATTEMPTS) retry.push(task);
+		}
+		state[key] = next;
+	}
+
+	// Sent pairs stay, so a post that comes through the queue again can't mention a target twice
+	const entries = Object.entries(state).sort((a, b) => b[1].at - a[1].at);
+	const kept = [...entries.filter(([, st]) => st.ok), ...entries.filter(([, st]) => !st.ok).slice(0, MENTIONS_MAX)];
+	await env.XMLRPC_PING_KV.put(MENTIONS_KEY, JSON.stringify(Object.fromEntries(kept)));
+	await env.XMLRPC_PING_KV.put(MENTION_QUEUE_KEY, JSON.stringify([...queue, ...retry]));
+}
+
+/**
+ * Fetch a URL, following up to maxRedirects redirects by hand (see nextRedirect) so each hop can be counted
+ * @param {string} url The URL
+ * @param {RequestInit} init The request, sent again as is to every hop
+ * @param {number} maxRedirects Hops to follow at most
+ * @param {() => boolean} spend Takes a subrequest for a hop; false when none is left (the 3xx then stands)
+ * @returns {Promise<{ res: Response; url: string }>} The last response and the URL that answered it
+ */
+async function fetchCounted(url: string, init: RequestInit, maxRedirects: number, spend: () => boolean): Promise<{ res: Response; url: string }> {
+	const seen = [url];
+	let res = await fetch(url, { ...init, redirect: "manual" });
+	let next = nextRedirect(url, res);
+	while (next && !seen.includes(next) && seen.length <= maxRedirects && spend()) {
+		await res.body?.cancel();
+		seen.push(next);
+		res = await fetch(next, { ...init, redirect: "manual" });
+		next = nextRedirect(next, res);
+	}
+	return { res, url: seen[seen.length - 1] };
+}
+
+/**
+ * Fetch a post and list the external links in its content (<article>, else <main>, else the whole page)
+ * @param {string} source The post URL
+ * @param {number} maxRedirects Redirect hops to follow at most
+ * @param {() => boolean} spend Takes a subrequest for a redirect hop
+ * @returns {Promise<string[]>} Absolute http(s) links to other hosts, without fragments
+ */
+async function extractOutboundLinks(source: string, maxRedirects: number, spend: () => boolean): Promise<string[]> {
+	try {
+		const { res: r } = await fetchCounted(source, { headers: { "User-Agent": "xmlrpc-pinger" } }, maxRedirects, spend);
+		if (!r.ok) {
+			await r.body?.cancel();
+			return [];
+		}
+		const html = (await r.text()).slice(0, HTML_MAX_CHARS);
+		const content = CONTENT_RE.exec(html)?.[0] ?? html;
+		const host = hostOf(source);
+		const links = new Set<string>();
+		for (const m of content.matchAll(HTML_TAG_RE)) {
+			if (m[1].toLowerCase() !== "a") continue;
+			const href = xmlAttr(m[2], "href");
+			if (!href) continue;
+			try {
+				const u = new URL(href, source);
+				u.hash = "";
+				if ((u.protocol === "https:" || u.protocol === "http:") && u.host !== host) links.add(u.toString());
+			} catch {}
+		}
+		return [...links].slice(0, MENTION_TARGETS_MAX);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Find where a target accepts mentions: a Webmention endpoint (Link header, then <link>/<a rel="webmention">),
+ * else a pingback server (X-Pingback header, then <link rel="pingback">)
+ * @param {string} target The linked page
+ * @param {number} maxRedirects Redirect hops to follow at most
+ * @param {() => boolean} spend Takes a subrequest for a redirect hop
+ * @returns {Promise<{ via: "webmention" | "pingback"; endpoint: string } | null>} The endpoint, or null when there is none
+ */
+async function discoverMentionEndpoint(target: string, maxRedirects: number, spend: () => boolean): Promise<{ via: "webmention" | "pingback"; endpoint: string } | null> {
+	try {
+		const { res: r, url: base } = await fetchCounted(target, { headers: { "User-Agent": "xmlrpc-pinger", "Accept": "text/html" } }, maxRedirects, spend);
+		const resolve = (href: string) => new URL(href, base).toString();
+		const hasRel = (rel: string | undefined, name: string) => !!rel && rel.toLowerCase().split(/\s+/).includes(name);
+
+		for (const m of (r.headers.get("Link") ?? "").matchAll(LINK_HEADER_RE)) {
+			if (!hasRel(LINK_REL_RE.exec(m[2])?.[1], "webmention")) continue;
+			await r.body?.cancel(); // the header is enough: don't leave the page body hanging
+			return { via: "webmention", endpoint: resolve(m[1]) };
+		}
+		const html = r.ok && (r.headers.get("Content-Type") ?? "").includes("html") ? (await r.text()).slice(0, HTML_MAX_CHARS) : "";
+		if (!html) await r.body?.cancel();
+		let pingback: string | undefined;
+		for (const m of html.matchAll(HTML_TAG_RE)) {
+			const rel = xmlAttr(m[2], "rel");
+			const href = xmlAttr(m[2], "href");
+			if (href === undefined) continue;
+			if (hasRel(rel, "webmention")) return { via: "webmention", endpoint: resolve(href) };
+			if (!pingback && m[1].toLowerCase() === "link" && hasRel(rel, "pingback")) pingback = href;
+		}
+		const xPingback = r.headers.get("X-Pingback") ?? pingback;
+		return xPingback ? { via: "pingback", endpoint: resolve(xPingback) } : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Send one Webmention (form POST) or pingback (`pingback.ping` over XML-RPC)
+ * @param {"webmention" | "pingback"} via The protocol
+ * @param {string} endpoint The discovered endpoint
+ * @param {string} source Our post
+ * @param {string} target The linked page
+ * @param {number} maxRedirects Redirect hops to follow at most
+ * @param {() => boolean} spend Takes a subrequest for a redirect hop
+ * @returns {Promise<{ ok: boolean; status: number; error?: string }>} The outcome
+ */
+async function sendMention(via: "webmention" | "pingback", endpoint: string, source: string, target: string, maxRedirects: number, spend: () => boolean): Promise<{ ok: boolean; status: number; error?: string }> {
+	try {
+		if (via === "webmention") {
+			const { res: r } = await fetchCounted(endpoint, { method: "POST", headers: { "Content-Type": "application/x-www-form-urlencoded" }, body: new URLSearchParams({ source, target }).toString() }, maxRedirects, spend);
+			await r.body?.cancel();
+			return { ok: r.ok, status: r.status };
+		}
+		const { res: r } = await fetchCounted(endpoint, { method: "POST", headers: { "Content-Type": "text/xml" }, body: xmlRpc("pingback.ping", [source, target]) }, maxRedirects, spend);
+		const outcome = interpretPingResponse(await r.text());
+		// fault 48 = "the pingback has already been registered"
+		const ok = r.ok && (outcome.accepted || outcome.faultCode === 48);
+		return ok ? { ok, status: r.status } : { ok, status: r.status, error: outcome.faultString ?? outcome.error };
+	} catch (e) {
+		return { ok: false, status: 0, error: String(e) };
+	}
+}
+
+/**
+ * Summarize the mention queue and pair states for /health
+ * @param {MentionTask[]} queue The pending tasks
+ * @param {Record<string, MentionState>} state The pair states
+ * @returns {HealthData["mentions"]} The counts
+ */
+function mentionCounts(queue: MentionTask[], state: Record<string, MentionState>): HealthData["mentions"] {
+	const all = Object.values(state);
+	return { queued: queue.length, sent: all.filter((s) => s.ok).length, failed: all.filter((s) => !s.ok && s.via !== null).length, noEndpoint: all.filter((s) => s.via === null).length };
+}
+
+// --- Failure notifications ---
+
+const NOTIFY_KEY = "xmlrpc:notify"; // NotifyState
+const NOTIFY_HISTORY_KEY = "xmlrpc:notify-history"; // newest-first NotifyHistoryEntry[]
+const NOTIFY_QUEUE_MAX = 100; // pending / digest events kept
+const NOTIFY_HISTORY_MAX = 50;
+const NOTIFY_TICK_MAX = 10; // messages sent per cron tick, out of SUBREQ_BUDGET
+
+// Rules that raise an event
+type NotifyKind = "run.finished" | "run.failure-rate" | "detector.error" | "endpoint.quarantined" | "config.invalid";
+
+// Where events go. `events` defaults to every kind; digest targets get one summary a day instead of one message per event.
+// Email goes through a relay that accepts `{ to, subject, text }` as JSON.
+type NotifyTarget = { url: string; format?: "json" | "slack" | "discord" | "email"; events?: NotifyKind[]; mode?: "instant" | "digest"; to?: string };
+
+// One event; `key` de-duplicates it (e.g. "detector.error:<site id>")
+type NotifyEvent = { kind: NotifyKind; key: string; title: string; text: string; siteId?: string; at: number };
+
+// `sent`: key -> last queued time; `streaks`: site id -> failed detector checks in a row; `digestDay`: UTC date of the last digest
+type NotifyState = { sent: Record<string, number>; streaks: Record<string, number>; pending: NotifyEvent[]; digest: NotifyEvent[]; digestDay?: string };
+
+// One delivery; `target` is the host only, since webhook URLs carry tokens
+type NotifyHistoryEntry = { at: number; kind: NotifyKind | "digest"; title: string; format: string; target: string; ok: boolean; status: number; error?: string };
+
+/**
+ * Parse NOTIFY_TARGETS, dropping entries without an http(s) URL
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {NotifyTarget[]} The targets (empty when unset or invalid)
+ */
+function readNotifyTargets(env: RuntimeEnv): NotifyTarget[] {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(env.NOTIFY_TARGETS ?? "[]");
+	} catch {
+		return [];
+	}
+	return Array.isArray(raw) ? raw.filter((t: Partial<NotifyTarget> | null): t is NotifyTarget => !!normalizeEndpointUrl(t?.url)) : [];
+}
+
+/**
+ * Read the notification state
+ * @param {RuntimeEnv} env The runtime environment
+ * @returns {Promise<NotifyState>} The state, with defaults filled in
+ */
+async function readNotifyState(env: RuntimeEnv): Promise<NotifyState> {
+	const s = (await env.XMLRPC_PING_KV.get(NOTIFY_KEY, "json")) as Partial<NotifyState> | null;
+	return { sent: s?.sent ?? {}, streaks: s?.streaks ?? {}, pending: s?.pending ?? [], digest: s?.digest ?? [], digestDay: s?.digestDay };
+}
+
+/**
+ * Queue events for the next cron tick, dropping any whose key was queued within NOTIFY_DEDUP_HOURS.
+ * A no-op while no target is configured.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {Array<Omit<NotifyEvent, "at">>} events The events
+ * @returns {Promise<void>}
+ */
+async function queueNotifications(env: RuntimeEnv, events: Array<Omit<NotifyEvent, "at">>): Promise<void> {
+	if (!events.length || !readNotifyTargets(env).length) return;
+	const state = await readNotifyState(env);
+	const now = Date.now();
+	const windowMs = numberOr(env.NOTIFY_DEDUP_HOURS, 6) * HOUR * 1000;
+	for (const [key, at] of Object.entries(state.sent)) if (now - at >= windowMs) delete state.sent[key];
+
+	const fresh: NotifyEvent[] = [];
+	for (const e of events) {
+		if (state.sent[e.key] !== undefined) continue;
+		state.sent[e.key] = now;
+		fresh.push({ ...e, at: now });
+	}
+	if (!fresh.length) return;
+	state.pending = [...state.pending, ...fresh].slice(-NOTIFY_QUEUE_MAX);
+	await env.XMLRPC_PING_KV.put(NOTIFY_KEY, JSON.stringify(state));
+}
+
+/**
+ * The events a run batch raises: newly quarantined endpoints, and once the run is done, run.finished and
+ * run.failure-rate (when at least NOTIFY_FAIL_RATE percent of its rows failed)
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @param {RunRecord} run The run after this batch
+ * @param {string[]} quarantined Endpoints this batch quarantined
+ * @returns {Array<Omit<NotifyEvent, "at">>} The events
+ */
+function runEvents(env: RuntimeEnv, site: SiteConfig, run: RunRecord, quarantined: string[]): Array<Omit<NotifyEvent, "at">> {
+	const events: Array<Omit<NotifyEvent, "at">> = quarantined.map((url) => ({ kind: "endpoint.quarantined", key: `endpoint.quarantined:${url}`, title: `Endpoint quarantined: ${url}`, text: `Skipped after ${numberOr(env.QUARANTINE_AFTER, 5)} failed run(s) in a row; re-probed every ${numberOr(env.QUARANTINE_REPROBE_HOURS, 24)}h`, siteId: site.id }));
+	if (run.status !== "done") return events;
+
+	const { total, ok, fail } = run.totals;
+	const failPct = total ? Math.round((fail / total) * 100) : 0;
+	const text = `${ok}/${total} accepted, ${failPct}% failed, in ${Math.round(run.durationMs / 1000)}s (${run.trigger}${run.deployId ? ` ${run.deployId}` : ""})`;
+	events.push({ kind: "run.finished", key: `run.finished:${run.id}`, title: `Ping run finished for ${site.name}`, text, siteId: site.id });
+	if (total && failPct >= numberOr(env.NOTIFY_FAIL_RATE, 50)) events.push({ kind: "run.failure-rate", key: `run.failure-rate:${site.id}`, title: `${failPct}% of pings failed for ${site.name}`, text, siteId: site.id });
+	return events;
+}
+
+/**
+ * Count a site's failed detector checks in a row; raises detector.error once the streak reaches NOTIFY_DETECTOR_TICKS
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @param {string | null} error The check's error, or null when it succeeded
+ * @returns {Promise<void>}
+ */
+async function trackDetector(env: RuntimeEnv, site: SiteConfig, error: string | null): Promise<void> {
+	if (!readNotifyTargets(env).length) return;
+	const state = await readNotifyState(env);
+	const prev = state.streaks[site.id] ?? 0;
+	const streak = error ? prev + 1 : 0;
+	if (streak === prev) return;
+	if (streak) state.streaks[site.id] = streak;
+	else delete state.streaks[site.id];
+	await env.XMLRPC_PING_KV.put(NOTIFY_KEY, JSON.stringify(state));
+
+	if (error && streak >= numberOr(env.NOTIFY_DETECTOR_TICKS, 3)) {
+		await queueNotifications(env, [{ kind: "detector.error", key: `detector.error:${site.id}`, title: `The ${site.detector} detector is failing for ${site.name}`, text: `${streak} checks in a row failed; last error: ${error}`, siteId: site.id }]);
+	}
+}
+
+/**
+ * Whether a target subscribes to an event kind
+ * @param {NotifyTarget} t The target
+ * @param {NotifyKind} kind The event kind
+ * @returns {boolean} True when it wants the event
+ */
+function wantsEvent(t: NotifyTarget, kind: NotifyKind): boolean {
+	return !Array.isArray(t.events) || t.events.includes(kind);
+}
+
+/**
+ * Send queued events to instant targets, and once a day after NOTIFY_DIGEST_HOUR (UTC) the collected digest to digest targets.
+ * One subrequest per message; whatever doesn't fit the budget waits for the next tick.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {number} budget Subrequests available
+ * @returns {Promise<number>} Subrequests used
+ */
+async function deliverNotifications(env: RuntimeEnv, budget: number): Promise<number> {
+	const targets = readNotifyTargets(env);
+	if (!targets.length || budget <= 0) return 0;
+	const state = await readNotifyState(env);
+	const now = new Date();
+	const today = now.toISOString().slice(0, 10);
+	const digestHourPassed = now.getUTCHours() >= numberOr(env.NOTIFY_DIGEST_HOUR, 8);
+	if (!state.pending.length && !(state.digest.length && state.digestDay !== today && digestHourPassed)) return 0;
+
+	const instant = targets.filter((t) => t.mode !== "digest");
+	const digest = targets.filter((t) => t.mode === "digest");
+	const history: NotifyHistoryEntry[] = [];
+	let used = 0;
+
+	/**
+	 * Send one message and log it
+	 * @param {NotifyTarget} t The target
+	 * @param {NotifyKind | "digest"} kind The event kind
+	 * @param {string} title The title
+	 * @param {string} text The body text
+	 * @param {unknown} data The generic JSON payload
+	 * @returns {Promise<void>}
+	 */
+	async function send(t: NotifyTarget, kind: NotifyKind | "digest", title: string, text: string, data: unknown): Promise<void> {
+		used++;
+		const res = await postNotification(t, title, text, data);
+		history.push({ at: Date.now(), kind, title, format: t.format ?? "json", target: hostOf(t.url) ?? "?", ...res });
+	}
+
+	while (state.pending.length) {
+		const e = state.pending[0];
+		const to = instant.filter((t) => wantsEvent(t, e.kind));
+		if (used + to.length > budget) break;
+		for (const t of to) await send(t, e.kind, e.title, e.text, e);
+		state.pending.shift();
+		if (digest.some((t) => wantsEvent(t, e.kind))) state.digest = [...state.digest, e].slice(-NOTIFY_QUEUE_MAX);
+	}
+
+	if (state.digest.length && state.digestDay !== today && digestHourPassed && used + digest.length <= budget) {
+		for (const t of digest) {
+			const events = state.digest.filter((e) => wantsEvent(t, e.kind));
+			if (!events.length) continue;
+			const title = `XML-RPC Pinger daily digest: ${events.length} event(s)`;
+			const text = events.map((e) => `- ${new Date(e.at).toISOString().slice(0, 16).replace("T", " ")} ${e.title}: ${e.text}`).join("\n");
+			await send(t, "digest", title, text, { kind: "digest", title, events });
+		}
+		state.digest = [];
+		state.digestDay = today;
+	}
+
+	await env.XMLRPC_PING_KV.put(NOTIFY_KEY, JSON.stringify(state));
+	if (history.length) {
+		const prev = ((await env.XMLRPC_PING_KV.get(NOTIFY_HISTORY_KEY, "json")) as NotifyHistoryEntry[] | null) ?? [];
+		await env.XMLRPC_PING_KV.put(NOTIFY_HISTORY_KEY, JSON.stringify([...history.reverse(), ...prev].slice(0, NOTIFY_HISTORY_MAX)));
+	}
+	return used;
+}
+
+/**
+ * POST one message in the target's format: Slack `{ text }`, Discord `{ content }` (2000 chars max),
+ * email relay `{ to, subject, text }`, or the generic JSON payload
+ * @param {NotifyTarget} t The target
+ * @param {string} title The title
+ * @param {string} text The body text
+ * @param {unknown} data The generic JSON payload
+ * @returns {Promise<{ ok: boolean; status: number; error?: string }>} The outcome
+ */
+async function postNotification(t: NotifyTarget, title: string, text: string, data: unknown): Promise<{ ok: boolean; status: number; error?: string }> {
+	let body: unknown = data;
+	if (t.format === "slack") body = { text: `*${title}*\n${text}` };
+	else if (t.format === "discord") body = { content: `**${title}**\n${text}`.slice(0, 2000) };
+	else if (t.format === "email") body = { to: t.to, subject: title, text };
+	try {
+		const r = await fetch(t.url, { method: "POST", headers: { "Content-Type": "application/json", "User-Agent": "xmlrpc-pinger" }, body: JSON.stringify(body), signal: AbortSignal.timeout(10_000) });
+		await r.body?.cancel();
+		return r.ok ? { ok: true, status: r.status } : { ok: false, status: r.status, error: `HTTP ${r.status}` };
+	} catch (e) {
+		return { ok: false, status: 0, error: String(e) };
+	}
+}
+
+// --- Diagnostics ---
+
+const GITHUB_REPO_RE = /^[\w.-]+\/[\w.-]+$/;
+const CF_ACCOUNT_ID_RE = /^[0-9a-f]{32}$/;
+
+type CheckStatus = "pass" | "warn" | "fail";
+
+// One finding: `id` is "env.<VAR>", "binding.<NAME>", "site.<id>.<what>", "endpoints.<id>" or "detector.<id>"
+type DiagnosticCheck = { id: string; status: CheckStatus; message: string };
+
+// Where a site's endpoint list comes from (see resolveEndpoints)
+type EndpointSource = "site" | "kv" | "payload" | "env" | "minimal_endpoints";
+
+// GET /diagnostics; `status` is the worst check
+type DiagnosticsReport = { status: CheckStatus; checkedAt: number; endpointSources: Record<string, EndpointSource>; checks: DiagnosticCheck[] };
+
+// How one var is checked; `urls` and `json` are JSON arrays, secrets are never echoed
+type EnvRule = { kind: "secret"; required?: boolean; minLength?: number } | { kind: "text"; pattern?: RegExp; hint?: string } | { kind: "url" | "urls" | "json" | "flag" | "timezone" | "quiet-hours" } | { kind: "int"; min: number; max?: number } | { kind: "enum"; values: readonly string[] };
+
+// Every string var of RuntimeEnv has a rule (the bindings are checked on their own)
+const ENV_SCHEMA: { [K in Exclude<keyof RuntimeEnv, "XMLRPC_PING_KV" | "XMLRPC_PING_DB" | "PING_COORDINATOR">]-?: EnvRule } = {
+	XMLRPC_PING_SECRET: { kind: "secret", required: true, minLength: 16 },
+	HEALTH_AUTH: { kind: "flag" },
+	SITES: { kind: "json" },
+	SITE_NAME: { kind: "text" },
+	SITE_URL: { kind: "url" },
+	FEED_URL: { kind: "url" },
+	PING_ENDPOINTS: { kind: "urls" },
+	DETECTOR: { kind: "enum", values: Object.keys(DETECTORS) },
+	GITHUB_REPO: { kind: "text", pattern: GITHUB_REPO_RE, hint: '"owner/repo"' },
+	GITHUB_BRANCH: { kind: "text" },
+	GITHUB_TOKEN: { kind: "secret" },
+	CLOUDFLARE_API_TOKEN: { kind: "secret" },
+	CLOUDFLARE_ACCOUNT_ID: { kind: "text", pattern: CF_ACCOUNT_ID_RE, hint: "32 hex characters" },
+	CLOUDFLARE_PAGES_PROJECT: { kind: "text" },
+	GITLAB_PROJECT: { kind: "text" },
+	GITLAB_BRANCH: { kind: "text" },
+	GITLAB_TOKEN: { kind: "secret" },
+	NETLIFY_SITE_ID: { kind: "text" },
+	NETLIFY_TOKEN: { kind: "secret" },
+	VERCEL_PROJECT_ID: { kind: "text" },
+	VERCEL_TEAM_ID: { kind: "text" },
+	VERCEL_TOKEN: { kind: "secret" },
+	DETECT_URL: { kind: "text" }, // may be relative to the site URL
+	GITHUB_API_URL: { kind: "url" },
+	CLOUDFLARE_API_URL: { kind: "url" },
+	GITLAB_API_URL: { kind: "url" },
+	NETLIFY_API_URL: { kind: "url" },
+	VERCEL_API_URL: { kind: "url" },
+	INDEXNOW_KEY: { kind: "text", pattern: INDEXNOW_KEY_RE, hint: "8-128 letters, digits or -" },
+	INDEXNOW_KEY_LOCATION: { kind: "url" },
+	INDEXNOW_ENDPOINT: { kind: "url" },
+	WEBSUB_HUBS: { kind: "urls" },
+	SEND_MENTIONS: { kind: "flag" },
+	NOTIFY_TARGETS: { kind: "json" },
+	NOTIFY_FAIL_RATE: { kind: "int", min: 0, max: 100 },
+	NOTIFY_DETECTOR_TICKS: { kind: "int", min: 1 },
+	NOTIFY_DEDUP_HOURS: { kind: "int", min: 0 },
+	NOTIFY_DIGEST_HOUR: { kind: "int", min: 0, max: 23 },
+	GITHUB_WEBHOOK_SECRET: { kind: "secret", minLength: 16 },
+	CLOUDFLARE_WEBHOOK_SECRET: { kind: "secret", minLength: 16 },
+	POLICY_TIMEZONE: { kind: "timezone" },
+	QUIET_HOURS: { kind: "quiet-hours" },
+	CRON_COOLDOWN_SECONDS: { kind: "int", min: 0 },
+	MANUAL_COOLDOWN_SECONDS: { kind: "int", min: 0 },
+	POLICY_COALESCE: { kind: "flag" },
+	RELAY_SITES: { kind: "json" },
+	SUBREQ_BUDGET: { kind: "int", min: 1, max: 1000 },
+	PING_CONCURRENCY: { kind: "int", min: 1, max: 6 },
+	RETRY_MAX: { kind: "int", min: 0, max: 5 },
+	RETRY_BASE_MS: { kind: "int", min: 0 },
+	RETRY_MAX_DELAY_MS: { kind: "int", min: 0 },
+	PER_HOST_CONCURRENCY: { kind: "int", min: 1, max: 6 },
+	PER_HOST_SPACING_MS: { kind: "int", min: 0 },
+	MAX_REDIRECTS: { kind: "int", min: 0, max: 10 },
+	QUARANTINE_AFTER: { kind: "int", min: 1 },
+	QUARANTINE_REPROBE_HOURS: { kind: "int", min: 1 },
+	RUN_RETENTION_DAYS: { kind: "int", min: 1 },
+};
+
+/**
+ * Check the configuration without any I/O: the bindings, every var against ENV_SCHEMA, and each site's URLs and
+ * detector settings. Runs on every cron tick (failures raise config.invalid) and on /health (non-passing checks
+ * are listed there).
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig[]} sites The sites to check
+ * @returns {DiagnosticCheck[]} One check per binding, per set var (and per missing required one) and per site setting
+ */
+function validateConfig(env: RuntimeEnv, sites: SiteConfig[]): DiagnosticCheck[] {
+	const checks: DiagnosticCheck[] = [typeof (env.XMLRPC_PING_KV as Partial<KVNamespace> | undefined)?.get === "function" ? { id: "binding.XMLRPC_PING_KV", status: "pass", message: "bound" } : { id: "binding.XMLRPC_PING_KV", status: "fail", message: "KV namespace not bound: nothing works without it" }, { id: "binding.XMLRPC_PING_DB", status: "pass", message: env.XMLRPC_PING_DB ? "bound: D1 storage" : "not bound: KV storage" }, { id: "binding.PING_COORDINATOR", status: "pass", message: env.PING_COORDINATOR ? "bound: runs go through the coordinator" : "not bound: one batch per cron tick" }];
+
+	const vars = env as unknown as Record<string, unknown>;
+	for (const [name, rule] of Object.entries(ENV_SCHEMA) as Array<[string, EnvRule]>) {
+		const raw = vars[name];
+		if (raw === undefined || raw === null || raw === "") {
+			if (rule.kind === "secret" && rule.required) checks.push({ id: `env.${name}`, status: "fail", message: "required, not set" });
+			continue;
+		}
+		const [status, message] = typeof raw === "string" ? checkEnvValue(rule, raw) : (["fail", `expected a string, got ${typeof raw}`] as const);
+		checks.push({ id: `env.${name}`, status, message });
+	}
+
+	for (const site of sites) {
+		const id = `site.${site.id}`;
+		if (!httpUrl(site.url)) checks.push({ id: `${id}.url`, status: "fail", message: `not an http(s) URL: ${site.url}` });
+		if (site.feed && !httpUrl(site.feed)) checks.push({ id: `${id}.feed`, status: "warn", message: `not an http(s) URL: ${site.feed}` });
+		const missing = missingDetectorSettings(env, site);
+		checks.push(missing.length ? { id: `${id}.detector`, status: "fail", message: `the ${site.detector} detector needs ${missing.join(", ")}; it finds nothing until then` } : { id: `${id}.detector`, status: "pass", message: site.detector });
+		const keyUrl = indexNowKeyUrl(site, site.url);
+		if (keyUrl && hostOf(keyUrl) !== hostOf(site.url)) checks.push({ id: `${id}.indexnow`, status: "fail", message: `key location ${keyUrl} isn't on ${hostOf(site.url)}: IndexNow only accepts a key file on the site's host, so submissions are skipped` });
+	}
+	return checks;
+}
+
+/**
+ * Check one set var against its rule
+ * @param {EnvRule} rule The rule
+ * @param {string} raw The value
+ * @returns {[CheckStatus, string]} The status and a message (which never contains a secret)
+ */
+function checkEnvValue(rule: EnvRule, raw: string): [CheckStatus, string] {
+	switch (rule.kind) {
+		case "secret":
+			return rule.minLength && raw.length < rule.minLength ? ["warn", `set, but shorter than ${rule.minLength} characters`] : ["pass", "set"];
+		case "text":
+			return rule.pattern && !rule.pattern.test(raw) ? ["fail", `expected ${rule.hint ?? rule.pattern.source}`] : ["pass", "ok"];
+		case "url":
+			return httpUrl(raw) ? ["pass", "ok"] : ["fail", "not an http(s) URL"];
+		case "urls": {
+			const list = parseStringList(raw);
+			if (!list) return ["fail", "not a JSON array of URLs; it's ignored"];
+			const bad = list.filter((u) => !httpUrl(u)).length;
+			return bad ? ["warn", `${bad} of ${list.length} entries aren't http(s) URLs`] : ["pass", `${list.length} URL(s)`];
+		}
+		case "json":
+			try {
+				const value = JSON.parse(raw) as unknown;
+				return Array.isArray(value) ? ["pass", `${value.length} entries`] : ["fail", "not a JSON array; it's ignored"];
+			} catch {
+				return ["fail", "not valid JSON; it's ignored"];
+			}
+		case "flag":
+			return raw === "1" || raw === "0" ? ["pass", raw === "1" ? "on" : "off"] : ["warn", `"${raw}" is off: only "1" turns it on`];
+		case "int": {
+			const n = Number(raw);
+			if (!Number.isFinite(n)) return ["fail", "not a number; the default is used"];
+			const range = `${rule.min}-${rule.max ?? "∞"}`;
+			return n < rule.min || (rule.max !== undefined && n > rule.max) ? ["warn", `${n} is outside ${range}`] : ["pass", String(n)];
+		}
+		case "enum":
+			return rule.values.includes(raw) ? ["pass", raw] : ["fail", `unknown value; expected one of ${rule.values.join(", ")}`];
+		case "timezone":
+			try {
+				return ["pass", new Intl.DateTimeFormat("en-US", { timeZone: raw }).resolvedOptions().timeZone];
+			} catch {
+				return ["fail", "unknown time zone; UTC is used"];
+			}
+		case "quiet-hours": {
+			const parts = raw.split(",").filter((p) => p.trim()).length;
+			const windows = quietWindows({ QUIET_HOURS: raw } as RuntimeEnv).length;
+			return windows < parts ? ["warn", `${parts - windows} of ${parts} window(s) ignored; expected "HH:MM-HH:MM"`] : ["pass", `${windows} window(s)`];
+		}
+	}
+}
+
+/**
+ * The settings a site's detector needs but doesn't have (without them it quietly reports nothing)
+ * @param {RuntimeEnv} env The runtime environment (the API tokens are shared by all sites)
+ * @param {SiteConfig} site The site
+ * @returns {string[]} The missing settings, as var names for the default site and registry fields otherwise
+ */
+function missingDetectorSettings(env: RuntimeEnv, site: SiteConfig): string[] {
+	const own = site.id === DEFAULT_SITE_ID;
+	const need = (value: string | null | undefined, field: string, envName: string): string[] => (value ? [] : [own ? envName : field]);
+	switch (site.detector) {
+		case "github":
+			return need(site.githubRepo, "githubRepo", "GITHUB_REPO");
+		case "cloudflare":
+			return [...need(env.CLOUDFLARE_API_TOKEN, "CLOUDFLARE_API_TOKEN", "CLOUDFLARE_API_TOKEN"), ...need(site.cloudflareAccountId, "cloudflareAccountId", "CLOUDFLARE_ACCOUNT_ID"), ...need(site.cloudflarePagesProject, "cloudflarePagesProject", "CLOUDFLARE_PAGES_PROJECT")];
+		case "gitlab":
+			return need(site.gitlabProject, "gitlabProject", "GITLAB_PROJECT");
+		case "netlify":
+			return [...need(env.NETLIFY_TOKEN, "NETLIFY_TOKEN", "NETLIFY_TOKEN"), ...need(site.netlifySiteId, "netlifySiteId", "NETLIFY_SITE_ID")];
+		case "vercel":
+			return [...need(env.VERCEL_TOKEN, "VERCEL_TOKEN", "VERCEL_TOKEN"), ...need(site.vercelProjectId, "vercelProjectId", "VERCEL_PROJECT_ID")];
+		case "feed":
+			return need(site.feed, "feed", "FEED_URL");
+		case "http":
+			return [];
+	}
+}
+
+/**
+ * The full report behind GET /diagnostics: validateConfig, then per site the endpoint list in use and (unless
+ * `probe` is off) one live detector call, which is a subrequest and, for the feed detector, may record the baseline,
+ * plus a fetch of the IndexNow key file for sites that have a key
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {boolean} probe Whether to call the detectors
+ * @returns {Promise<DiagnosticsReport>} The report
+ */
+async function runDiagnostics(env: RuntimeEnv, probe: boolean): Promise<DiagnosticsReport> {
+	const kvBound = typeof (env.XMLRPC_PING_KV as Partial<KVNamespace> | undefined)?.get === "function";
+	const sites = kvBound ? await loadSites(env) : [defaultSite(env)];
+	const checks = validateConfig(env, sites);
+	const endpointSources: Record<string, EndpointSource> = {};
+
+	if (kvBound) {
+		for (const site of sites) {
+			const { urls, source } = await resolveEndpoints(env, site, {});
+			endpointSources[site.id] = source;
+			const from = `${urls.length} endpoint(s) from ${source === "kv" ? ENDPOINTS_KEY : source === "env" ? "PING_ENDPOINTS" : source === "site" ? "the site's own list" : "the baked-in minimal_endpoints"}`;
+			if (!urls.length) checks.push({ id: `endpoints.${site.id}`, status: "warn", message: `${from}: nothing is pinged` });
+			else checks.push({ id: `endpoints.${site.id}`, status: source === "minimal_endpoints" ? "warn" : "pass", message: source === "minimal_endpoints" ? `${from}; seed ${ENDPOINTS_KEY} or set PING_ENDPOINTS (a POST body's endpoints win over every list)` : from });
+
+			if (!probe) continue;
+			const keyUrl = indexNowKeyUrl(site, site.url);
+			if (keyUrl && site.indexNowKey && hostOf(keyUrl) === hostOf(site.url)) checks.push(await checkIndexNowKeyFile(keyUrl, site.indexNowKey, `indexnow.${site.id}`));
+
+			if (missingDetectorSettings(env, site).length) continue;
+			try {
+				const latest = await DETECTORS[site.detector](env, site);
+				const seen = latest ? await storage(env).getLastSeen(site) : null;
+				checks.push(latest ? { id: `detector.${site.id}`, status: "pass", message: `${site.detector}: latest ${latest.id}${latest.id === seen ? " (already pinged)" : ""}` } : { id: `detector.${site.id}`, status: "warn", message: `${site.detector}: answered, but reported nothing` });
+			} catch (e) {
+				checks.push({ id: `detector.${site.id}`, status: "fail", message: `${site.detector}: ${e instanceof Error ? e.message : String(e)}` });
+			}
+		}
+	}
+
+	return { status: worstStatus(checks), checkedAt: Date.now(), endpointSources, checks };
+}
+
+/**
+ * The worst status among some checks
+ * @param {DiagnosticCheck[]} checks The checks
+ * @returns {CheckStatus} "fail", else "warn", else "pass"
+ */
+function worstStatus(checks: DiagnosticCheck[]): CheckStatus {
+	return checks.some((c) => c.status === "fail") ? "fail" : checks.some((c) => c.status === "warn") ? "warn" : "pass";
+}
+
+/**
+ * Fetch a site's IndexNow key file the way IndexNow does, since it refuses every submission until the file checks out
+ * @param {string} keyUrl The key file URL (see indexNowKeyUrl)
+ * @param {string} key The expected key
+ * @param {string} id The check id
+ * @returns {Promise<DiagnosticCheck>} The check
+ */
+async function checkIndexNowKeyFile(keyUrl: string, key: string, id: string): Promise<DiagnosticCheck> {
+	try {
+		const res = await fetch(keyUrl, { signal: AbortSignal.timeout(10_000) });
+		const body = (await res.text()).trim();
+		if (res.ok && body === key) return { id, status: "pass", message: `key file found at ${keyUrl}` };
+		return { id, status: "fail", message: `${keyUrl} answered HTTP ${res.status}${res.ok ? " without the key" : ""}: IndexNow will refuse submissions until it serves the key (host the file on the site, or route the Worker there)` };
+	} catch (e) {
+		return { id, status: "fail", message: `${keyUrl}: ${e instanceof Error ? e.message : String(e)}` };
+	}
+}
+
+// --- Deploy triggers (shared by the cron detectors and the webhooks) ---
+
+const HEX_RE = /^[0-9a-f]+$/i;
+
+/**
+ * Why a deploy doesn't need a run for a site (cooldowns, pauses and quiet hours are checkPolicy's)
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @param {string} deployId The commit sha / deploy id
+ * @returns {Promise<string | null>} The reason, or null when the deploy is new
  */
-async function latestCloudflareDeploy(env: RuntimeEnv): Promise<{ id: string } | null> {
-	const { CLOUDFLARE_API_TOKEN, CLOUDFLARE_ACCOUNT_ID, CLOUDFLARE_PAGES_PROJECT } = env;
-	if (!CLOUDFLARE_API_TOKEN || !CLOUDFLARE_ACCOUNT_ID || !CLOUDFLARE_PAGES_PROJECT) return null;
+async function deploySkipReason(env: RuntimeEnv, site: SiteConfig, deployId: string): Promise<string | null> {
+	const store = storage(env);
+	const [lastSeen, job] = await Promise.all([store.getLastSeen(site), readActiveJob(env, site)]);
+	if (lastSeen === deployId) return "already seen";
+	if (job) return "job in progress";
+	return null;
+}
 
-	// Note: The CF Pages deployments API returns recent deployments.
-	// We only need the newest one's ID as a stable dedup key.
-	const url = `https://api.cloudflare.com/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/pages/projects/${CLOUDFLARE_PAGES_PROJECT}/deployments?per_page=1`;
-	const r = await fetch(url, { headers: { Authorization: `Bearer ${CLOUDFLARE_API_TOKEN}` } });
-	if (!r.ok) return null;
-	const j = (await r.json()) as CfDeployments;
+/**
+ * Start the ping job for a new deploy and remember the deploy (and its new feed items) as seen.
+ * doPing sets the site's lock and persists "last-result" (with `latest`) and the run record for the job.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site
+ * @param {DeployInfo} deploy What the detector or webhook reported
+ * @param {JobTrigger} trigger What noticed the deploy
+ * @param {number} [budget] Subrequests left for the first batch
+ * @returns {Promise<DoPingResult>} The first batch's result
+ */
+async function startDeployRun(env: RuntimeEnv, site: SiteConfig, deploy: DeployInfo, trigger: JobTrigger, budget?: number): Promise<DoPingResult> {
+	const res = await runJob(env, site, { op: "start", trigger, deployId: deploy.id, newItems: deploy.newItems?.map((i) => i.url), opts: { budget } });
+	if (res.status !== "done") return res; // not seen yet: the next check tries again
+	await storage(env).setLastSeen(site, deploy.id);
+	if (deploy.newItems) await markFeedItemsSeen(env, site, deploy.newItems);
+	return res;
+}
 
-	// Be tolerant to shape differences
-	const list = Array.isArray(j.result) ? j.result : (j.result?.deployments ?? []);
-	const first: CfDeploy | undefined = Array.isArray(list) ? list[0] : undefined;
-	const id = first?.id ?? first?.deployment_id ?? first?.short_id;
-	return id ? { id } : null;
+/**
+ * Start a run for the first matching site that isn't deduped or held by the policy (held deploys may be queued, see deferRun). The run continues after the response
+ * (webhook senders time out after ~10s); later batches are picked up by the cron.
+ * Sites on the feed detector only start a run when their feed already has new items; otherwise the cron picks them up later.
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {ExecutionContext} ctx The execution context
+ * @param {SiteConfig[]} matched The sites the event belongs to
+ * @param {string} deployId The commit sha / deploy id
+ * @param {number} [detectorCalls] Detector requests the webhook already made; like on the cron, they and the feed checks come out of the run's budget
+ * @returns {Promise<Response>} 202 when a run started, 200 with the skip reasons otherwise
+ */
+async function acceptDeploy(env: RuntimeEnv, ctx: ExecutionContext, matched: SiteConfig[], deployId: string, detectorCalls = 0): Promise<Response> {
+	const skipped: { site: string; reason: string }[] = [];
+	for (const site of matched) {
+		let deploy: DeployInfo | null;
+		if (site.detector === "feed") detectorCalls++;
+		try {
+			deploy = site.detector === "feed" ? await feedDiff(env, site) : { id: deployId, timestamp: null };
+		} catch (e) {
+			skipped.push({ site: site.id, reason: `feed check failed: ${e instanceof Error ? e.message : String(e)}` });
+			continue;
+		}
+		if (!deploy) {
+			skipped.push({ site: site.id, reason: "no new feed items" });
+			continue;
+		}
+		const reason = await deploySkipReason(env, site, deploy.id);
+		if (reason) {
+			skipped.push({ site: site.id, reason });
+			continue;
+		}
+		const block = await checkPolicy(env, site, "webhook");
+		if (block) {
+			skipped.push({ site: site.id, reason: await deferRun(env, site, block, { trigger: "webhook", deploy, payload: {} }) });
+			continue;
+		}
+		ctx.waitUntil(startDeployRun(env, site, deploy, "webhook", Math.max(1, numberOr(env.SUBREQ_BUDGET, 45) - detectorCalls)));
+		return Response.json({ status: "accepted", site: site.id, deployId: deploy.id }, { status: 202 });
+	}
+	if (!matched.length) return Response.json({ status: "ignored", reason: "no site for this repo/branch", deployId });
+	return Response.json({ status: "skipped", deployId, skipped });
+}
+
+/**
+ * Check a GitHub `X-Hub-Signature-256` header (`sha256=<hex>`) against the raw body
+ * @param {string} secret The webhook secret
+ * @param {string} body The raw request body
+ * @param {string | null} header The signature header
+ * @returns {Promise<boolean>} True when the signature matches
+ */
+async function verifyGithubSignature(secret: string, body: string, header: string | null): Promise<boolean> {
+	return verifyHmacHex(secret, body, header?.startsWith("sha256=") ? header.slice("sha256=".length) : "");
+}
+
+/**
+ * Compare two strings without an early exit on the first difference
+ * @param {string} a The first string
+ * @param {string} b The second string
+ * @returns {boolean} True when equal
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+	let diff = a.length ^ b.length;
+	for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+	return diff === 0;
+}
+
+/**
+ * POST /webhooks/github — `push` and successful `deployment_status` events for a site's repo + branch
+ * @param {Request} request The webhook request
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {ExecutionContext} ctx The execution context
+ * @param {SiteConfig[]} sites The site registry
+ * @returns {Promise<Response>} The response
+ */
+async function handleGithubWebhook(request: Request, env: RuntimeEnv, ctx: ExecutionContext, sites: SiteConfig[]): Promise<Response> {
+	if (!env.GITHUB_WEBHOOK_SECRET) return new Response("Webhook not configured", { status: 404 });
+	const body = await request.text();
+	if (!(await verifyGithubSignature(env.GITHUB_WEBHOOK_SECRET, body, request.headers.get("X-Hub-Signature-256")))) return new Response("Bad signature", { status: 401 });
+
+	let payload: GitHubWebhookPayload;
+	try {
+		payload = JSON.parse(body) as GitHubWebhookPayload;
+	} catch {
+		return new Response("Bad JSON", { status: 400 });
+	}
+
+	const event = request.headers.get("X-GitHub-Event");
+	if (event === "ping") return Response.json({ status: "pong" });
+
+	let ref: string | undefined;
+	let deployId: string | undefined;
+	if (event === "push" && !payload.deleted) {
+		ref = payload.ref;
+		deployId = payload.after;
+	} else if (event === "deployment_status" && payload.deployment_status?.state === "success") {
+		ref = payload.deployment?.ref;
+		deployId = payload.deployment?.sha;
+	}
+	if (!ref || !deployId) return Response.json({ status: "ignored", reason: `event ${event ?? "?"}` });
+
+	// deployment refs are branch names (or shas); push refs are refs/heads/<branch>
+	const repo = (payload.repository?.full_name ?? "").toLowerCase();
+	const matched = sites.filter((s) => {
+		const branch = s.githubBranch || "main";
+		return s.githubRepo?.toLowerCase() === repo && (ref === branch || ref === `refs/heads/${branch}`);
+	});
+	return acceptDeploy(env, ctx, matched, deployId);
+}
+
+/**
+ * POST /webhooks/cloudflare — Cloudflare Notifications webhook for Pages deployments.
+ * The deploy id comes from the payload when present, otherwise from the Pages API (one subrequest).
+ * @param {Request} request The webhook request
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {ExecutionContext} ctx The execution context
+ * @param {SiteConfig[]} sites The site registry
+ * @returns {Promise<Response>} The response
+ */
+async function handleCloudflareWebhook(request: Request, env: RuntimeEnv, ctx: ExecutionContext, sites: SiteConfig[]): Promise<Response> {
+	if (!env.CLOUDFLARE_WEBHOOK_SECRET) return new Response("Webhook not configured", { status: 404 });
+	if (!timingSafeEqual(request.headers.get("cf-webhook-auth") ?? "", env.CLOUDFLARE_WEBHOOK_SECRET)) return new Response("Bad secret", { status: 401 });
+
+	const payload = (await safeJson(request)) as CfWebhookPayload;
+	const project = payload.data?.project_name;
+	// Without a project name in the payload, only the first Pages site can be resolved reliably
+	const matched = project ? sites.filter((s) => s.cloudflarePagesProject === project) : sites.filter((s) => s.cloudflarePagesProject).slice(0, 1);
+	if (!matched.length) return Response.json({ status: "ignored", reason: `no site for project ${project ?? "?"}` });
+
+	// No id in the payload: ask the API, the same detector call the cron makes (and counted against the run's budget the same way)
+	const fromPayload = payload.data?.deployment_id;
+	const deployId = fromPayload ?? (await latestCloudflareDeploy(env, matched[0]).catch(() => null))?.id;
+	if (!deployId) return Response.json({ status: "ignored", reason: "no deployment id" });
+	return acceptDeploy(env, ctx, matched, deployId, fromPayload ? 0 : 1);
 }
 
 /**
  * Read health data from KV
  * @param {RuntimeEnv} env
+ * @param {SiteConfig} site The site
+ * @param {boolean} [withRequests] Include the request log, the last trigger body and the config findings (authenticated readers only)
  * @returns {Promise<HealthData>} The health data
  */
-async function readHealth(env: RuntimeEnv): Promise<HealthData> {
-	const [lastPingStr, lastSeen, endpoints, lastResult, lastDry, lastReq] = await Promise.all([env.XMLRPC_PING_KV.get("xmlrpc:last-ping", "text"), env.XMLRPC_PING_KV.get("xmlrpc:last-seen", "text"), env.XMLRPC_PING_KV.get("xmlrpc:endpoints", "json") as Promise<string[] | null>, env.XMLRPC_PING_KV.get("xmlrpc:last-result", "json") as Promise<LastResultKV | null>, env.XMLRPC_PING_KV.get("xmlrpc:last-dry", "json") as Promise<LastResultKV | null>, env.XMLRPC_PING_KV.get("xmlrpc:last-request", "json") as Promise<{ time: number; body: unknown } | null>]);
+async function readHealth(env: RuntimeEnv, site: SiteConfig, withRequests = false): Promise<HealthData> {
+	const keys = siteKeys(site);
+	const store = storage(env);
+	const [lastPingMs, lastSeen, endpoints, lastResult, lastDry, lastReq, job, stats, mentionQueue, mentionState, notifications, requestLog, policy] = await Promise.all([store.lockedAt(site), store.getLastSeen(site), site.endpoints?.length ? Promise.resolve(site.endpoints) : store.getEndpoints(), env.XMLRPC_PING_KV.get(keys.lastResult, "json") as Promise<LastResultKV | null>, env.XMLRPC_PING_KV.get(keys.lastDry, "json") as Promise<LastResultKV | null>, env.XMLRPC_PING_KV.get(LAST_REQUEST_KEY, "json") as Promise<{ time: number; body: unknown } | null>, env.XMLRPC_PING_KV.get(keys.job, "json") as Promise<PingJob | null>, readStats(env), env.XMLRPC_PING_KV.get(MENTION_QUEUE_KEY, "json") as Promise<MentionTask[] | null>, env.XMLRPC_PING_KV.get(MENTIONS_KEY, "json") as Promise<Record<string, MentionState> | null>, env.XMLRPC_PING_KV.get(NOTIFY_HISTORY_KEY, "json") as Promise<NotifyHistoryEntry[] | null>, env.XMLRPC_PING_KV.get(REQUEST_LOG_KEY, "json") as Promise<RequestLogEntry[] | null>, readPolicyView(env, site)]);
 	const sampleSource = lastResult ?? lastDry ?? null;
+	const configChecks = validateConfig(env, [site]);
 
-	const lastPingMs = lastPingStr ? Number(lastPingStr) : null;
 	const now = Date.now();
-	const lockRemainingMs = lastPingMs ? Math.max(0, 60 * 60 * 1000 - (now - lastPingMs)) : 0;
+	const lockRemainingMs = lastPingMs ? Math.max(0, site.cooldowns.cron * 1000 - (now - lastPingMs)) : 0;
 
 	// Prefer the most recent available summary (last-result over last-dry)
 	const summary: PingResult[] = (lastResult?.result?.summary as PingResult[] | undefined) ?? (lastDry?.result?.summary as PingResult[] | undefined) ?? [];
 
 	const ok = summary.filter((s) => s.ok).length;
 	const fail = summary.length - ok;
+	const reliability = Object.entries(stats).map(([u, st]) => toReliability(u, st));
 
 	return {
+		siteId: site.id,
 		site: {
 			name: lastResult?.result?.siteName ?? lastDry?.result?.siteName ?? null,
 			url: lastResult?.result?.siteUrl ?? lastDry?.result?.siteUrl ?? null,
 			feed: lastResult?.result?.feedUrl ?? lastDry?.result?.feedUrl ?? null,
 		},
 		latestId: lastResult?.latest?.id ?? lastSeen ?? null,
+		newItems: lastResult?.latest?.newItems ?? [],
 		endpointsCount: Array.isArray(endpoints) ? endpoints.length : 0,
 		lastPingAt: lastPingMs,
 		nextAllowedInMs: lockRemainingMs,
@@ -506,10 +4890,19 @@ async function readHealth(env: RuntimeEnv): Promise<HealthData> {
 		successes: ok,
 		failures: fail,
 		lastRequestAt: lastReq?.time ?? null,
-		lastRequestBody: lastReq?.body ?? null,
+		lastRequestBody: withRequests ? (lastReq?.body ?? null) : null,
+		mentions: mentionCounts(mentionQueue ?? [], mentionState ?? {}),
+		notifications: notifications ?? [],
+		requests: (withRequests ? (requestLog ?? []) : []).slice(0, 10).map(({ time, method, path, keyId, country, flags, status, outcome }) => ({ time, method, path, keyId, country, flags, status, outcome })),
+		policy,
+		configStatus: worstStatus(configChecks),
+		config: withRequests ? configChecks.filter((c) => c.status !== "pass") : [],
 		summary,
 		recentSample: summary.slice(0, 20),
 		sampleSource: sampleSource ? { time: sampleSource.time, result: sampleSource.result } : undefined,
+		job: job ? jobProgress(job) : null,
+		quarantined: reliability.filter((r) => r.quarantinedAt),
+		reliability,
 	};
 }
 
@@ -540,50 +4933,251 @@ function fmtRelative(diffMs: number): string {
 	return `${d}d`;
 }
 
+// Shared by the per-site health page and the sites overview
+const HEALTH_PAGE_SIZES = [25, 50, 100, 250];
+const HEALTH_SORTS: HealthSort[] = ["url", "status", "latency", "error"];
+const HEALTH_VIEWS: ViewMode[] = ["all", "fail", "ok", "quarantined"];
+const ENDPOINT_HISTORY_RUNS = 30; // attempts kept per endpoint in the site's history key
+
+/**
+ * Read the results table's state from a /health URL
+ * @param {URL} url The request URL
+ * @returns {HealthQuery} View ("all" unless a known one), search text, sort and page (50 rows per page by default, 10-500)
+ */
+function parseHealthQuery(url: URL): HealthQuery {
+	const p = url.searchParams;
+	return {
+		view: HEALTH_VIEWS.find((v) => v === p.get("view")) ?? "all",
+		q: (p.get("q") ?? "").trim().slice(0, 200),
+		sort: HEALTH_SORTS.find((k) => k === p.get("sort")) ?? null,
+		dir: p.get("dir") === "desc" ? "desc" : "asc",
+		page: Math.max(1, Math.floor(numberOr(p.get("page") ?? undefined, 1))),
+		per: Math.max(10, Math.min(Math.floor(numberOr(p.get("per") ?? undefined, 50)), 500)),
+	};
+}
+
+/**
+ * The results table's rows for a query, filtered and sorted but not paged. "quarantined" lists endpoints from the
+ * rolling stats instead of the last result.
+ * @param {HealthData} data The health data
+ * @param {HealthQuery} query The view, search text and sort
+ * @returns {Array<PingResult & VerboseFields>} The rows
+ */
+function healthRows(data: HealthData, query: HealthQuery): Array<PingResult & VerboseFields> {
+	const { view, q, sort, dir } = query;
+	let rows: Array<PingResult & VerboseFields> = view === "quarantined" ? data.quarantined.map((r): PingResult => ({ url: r.url, ok: false, status: 0, error: `${r.consecutiveFailures} failed runs in a row (${r.lastErrorClass ?? "?"}); re-probe ${r.nextProbeAt ? new Date(r.nextProbeAt).toISOString() : "next run"}` })) : data.summary.filter((r) => (view === "all" ? true : view === "fail" ? !r.ok : r.ok));
+
+	if (q) {
+		const needle = q.toLowerCase();
+		rows = rows.filter((r) => [r.url, String(r.status), describeFailure(r), r.errorClass ?? "", r.channel ?? ""].some((v) => v.toLowerCase().includes(needle)));
+	}
+	if (!sort) return rows;
+
+	// Rows without a latency sort last either way; ties fall back to the URL
+	const value = (r: PingResult & VerboseFields): string | number => (sort === "url" ? r.url : sort === "status" ? r.status : sort === "latency" ? (r.ms ?? -1) : describeFailure(r));
+	const sign = dir === "desc" ? -1 : 1;
+	return [...rows].sort((a, b) => {
+		const [va, vb] = [value(a), value(b)];
+		if (sort === "latency" && (va === -1) !== (vb === -1)) return va === -1 ? 1 : -1;
+		return (va === vb ? 0 : va < vb ? -sign : sign) || a.url.localeCompare(b.url);
+	});
+}
+
+/**
+ * Link to /health with the given table state (defaults are left out of the query string)
+ * @param {string | null} siteId The site, when several exist
+ * @param {number} refreshSeconds The auto-refresh interval
+ * @param {HealthQuery & { format?: string }} query The table state, plus an export format
+ * @returns {string} The URL path and query
+ */
+function healthHref(siteId: string | null, refreshSeconds: number, query: HealthQuery & { format?: string }): string {
+	const p = new URLSearchParams();
+	if (siteId) p.set("site", siteId);
+	if (query.view !== "all") p.set("view", query.view);
+	if (query.q) p.set("q", query.q);
+	if (query.sort) p.set("sort", query.sort);
+	if (query.sort && query.dir === "desc") p.set("dir", "desc");
+	if (query.page > 1 && !query.format) p.set("page", String(query.page));
+	if (query.per !== 50 && !query.format) p.set("per", String(query.per));
+	if (refreshSeconds && !query.format) p.set("refresh", String(refreshSeconds));
+	if (query.format) p.set("format", query.format);
+	const qs = p.toString();
+	return `/health${qs ? `?${qs}` : ""}`;
+}
+
+/**
+ * Link to an endpoint's detail page
+ * @param {string | null} siteId The site, when several exist
+ * @param {string} url The endpoint URL
+ * @returns {string} The URL path and query
+ */
+function endpointHref(siteId: string | null, url: string): string {
+	return `/health/endpoint?${new URLSearchParams(siteId ? { site: siteId, url } : { url })}`;
+}
+
+const HEALTH_CSS = `	:root { color-scheme: light dark; --table-h: 520px; }
+	body{font:14px/1.45 system-ui, -apple-system, Segoe UI, Roboto, Arial, sans-serif; margin:24px;}
+	.wrap{max-width:1000px;margin:auto;}
+	h1{font-size:20px;margin:0 0 16px;}
+	.grid{display:grid;grid-template-columns:repeat(auto-fit,minmax(260px,1fr));gap:16px;margin-bottom:16px;}
+	.card{border:1px solid color-mix(in oklab, CanvasText 12%, transparent); border-radius:12px; padding:14px; background:color-mix(in oklab, Canvas 96%, transparent);}
+	.k{color:color-mix(in oklab, CanvasText 40%, transparent)}
+	.v{font-weight:600}
+	.mono{font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace}
+	.muted{color:color-mix(in oklab, CanvasText 55%, transparent)}
+	table{width:100%; border-collapse:collapse; font-size:13px}
+	th,td{padding:8px 10px; border-top:1px solid color-mix(in oklab, CanvasText 12%, transparent); vertical-align:top}
+	th{text-align:left; font-weight:700}
+	.badge{display:inline-block; padding:2px 8px; border-radius:999px; background:color-mix(in oklab, var(--c) 20%, transparent); color:var(--c); border:1px solid var(--c); font-size:12px}
+	.badge.link{text-decoration:none}
+	.row{display:flex; gap:12px; align-items:baseline; flex-wrap:wrap}
+	.pill{padding:2px 8px; border-radius:999px; border:1px solid color-mix(in oklab, CanvasText 18%, transparent)}
+	.small{font-size:12px}
+	a{color:inherit}
+
+	/* Segmented control */
+	.seg{display:flex; gap:8px; margin-left:auto}
+	.seg a{padding:4px 10px; border-radius:999px; border:1px solid color-mix(in oklab, CanvasText 22%, transparent); text-decoration:none}
+	.seg a.active{background:color-mix(in oklab, CanvasText 15%, transparent)}
+
+	/* Scrollable table area */
+	.tablecard{border:1px solid color-mix(in oklab, CanvasText 12%, transparent); border-radius:12px; background:color-mix(in oklab, Canvas 96%, transparent);}
+	.tablehdr{display:flex; align-items:center; justify-content:space-between; padding:12px 14px; border-bottom:1px solid color-mix(in oklab, CanvasText 12%, transparent);}
+	.tablewrap{height:var(--table-h); overflow:auto;}
+	thead th{position:sticky; top:0; background:color-mix(in oklab, Canvas 96%, transparent);}
+	th a{text-decoration:none}
+	.toolbar{padding:8px 14px}
+	input,button{font:inherit; padding:4px 8px; border-radius:8px; border:1px solid color-mix(in oklab, CanvasText 22%, transparent); background:Canvas; color:CanvasText}
+	input[type=search]{min-width:260px}
+	.ok{color:#22c55e} .fail{color:#ef4444}
+	pre{white-space:pre-wrap; margin:4px 0 0}
+`;
+
 /**
  * Render the health data as HTML
  * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site to show
  * @param {number} refreshSeconds The number of seconds to refresh the page
- * @param {"fail" | "all" | "ok"} view The view mode
+ * @param {HealthQuery} query The results table's view, search, sort and page
+ * @param {boolean} multiSite Whether other sites exist (adds `site=` to links and a back link)
+ * @param {boolean} withRequests Whether the reader is authenticated (shows the request log and the config findings)
  * @returns {Promise<string>} The rendered HTML
  */
-async function renderHealthHtml(env: RuntimeEnv, refreshSeconds = 0, view: ViewMode = "all"): Promise<string> {
-	const data = await readHealth(env);
+async function renderHealthHtml(env: RuntimeEnv, site: SiteConfig, refreshSeconds: number, query: HealthQuery, multiSite = false, withRequests = false): Promise<string> {
+	const data = await readHealth(env, site, withRequests);
+	const { view } = query;
 
-	// filter rows by view
-	const rows = (data.summary || []).filter((r) => (view === "all" ? true : view === "fail" ? !r.ok : r.ok));
+	// filter, sort and page the rows; downloads get the whole filtered view
+	const matching = healthRows(data, query);
+	const pages = Math.max(1, Math.ceil(matching.length / query.per));
+	const page = Math.min(query.page, pages);
+	const rows = matching.slice((page - 1) * query.per, page * query.per);
 
 	// quick helpers
-	const qp = (v: ViewMode) => `?view=${v}${refreshSeconds ? `&refresh=${refreshSeconds}` : ""}`;
+	const link = (over: Partial<HealthQuery> & { format?: string }) => healthHref(multiSite ? site.id : null, refreshSeconds, { ...query, page, ...over });
+	const qp = (v: ViewMode) => link({ view: v, page: 1 });
 	const badge = (label: string, color: string) => `<span class="badge" style="--c:${color}">${label}</span>`;
 	const linkBadge = (label: string, color: string, href: string) => `<a class="badge link" style="--c:${color}" href="${href}">${label}</a>`;
 
 	const okBadge = badge("OK", "#22c55e");
 	const failBadge = badge("FAIL", "#ef4444");
+	const quarantinedBadge = badge("QUARANTINED", "#f59e0b");
 
 	const metaRefresh = refreshSeconds > 0 ? `<meta http-equiv="refresh" content="${refreshSeconds}">` : "";
 
 	const recentRows = rows
 		.map(
-			(r: PingResult) => `
+			(r) => `
 <tr>
-	<td class="mono">${escapeHtml(r.url)}</td>
-	<td>${r.ok ? okBadge : failBadge}</td>
+	<td class="mono">${r.channel ? `${badge(r.channel, "#6366f1")} ${escapeHtml(r.url)}` : `<a href="${endpointHref(multiSite ? site.id : null, r.url)}">${escapeHtml(r.url)}</a>`}</td>
+	<td>${view === "quarantined" ? quarantinedBadge : r.ok ? okBadge : failBadge}</td>
 	<td class="mono">${r.status}</td>
-	<td class="muted">${r.error ? escapeHtml(r.error) : ""}</td>
+	<td class="mono">${typeof r.ms === "number" ? `${r.ms} ms` : "—"}</td>
+	<td class="muted">${escapeHtml(describeFailure(r))}</td>
 </tr>
 `,
 		)
 		.join("");
 
+	// Sortable column headers: a second click on the active column flips the direction
+	const th = (label: string, key: HealthSort) => {
+		const active = query.sort === key;
+		return `<th><a href="${link({ sort: key, dir: active && query.dir === "asc" ? "desc" : "asc", page: 1 })}">${label}${active ? (query.dir === "asc" ? " ▲" : " ▼") : ""}</a></th>`;
+	};
+	const hidden = Object.entries({ site: multiSite ? site.id : "", view: view === "all" ? "" : view, sort: query.sort ?? "", dir: query.sort ? query.dir : "", per: String(query.per), refresh: refreshSeconds ? String(refreshSeconds) : "" })
+		.filter(([, v]) => v)
+		.map(([k, v]) => `<input type="hidden" name="${k}" value="${escapeHtml(v)}">`)
+		.join("");
+	const searchForm = `<form method="get" action="/health" class="row toolbar">${hidden}
+		<input type="search" name="q" value="${escapeHtml(query.q)}" placeholder="Search URL, HTTP status or error">
+		<button type="submit">Search</button>${query.q ? ` <a class="small" href="${link({ q: "", page: 1 })}">clear</a>` : ""}
+		<span class="small muted" style="margin-left:auto">Download this view: <a href="${link({ format: "csv" })}">CSV</a> • <a href="${link({ format: "ndjson" })}">NDJSON</a></span>
+	</form>`;
+	const pager = `<div class="row toolbar small">
+		<span class="muted">Page ${page} of ${pages}</span>
+		${page > 1 ? `<a href="${link({ page: page - 1 })}">‹ Prev</a>` : ""}
+		${page < pages ? `<a href="${link({ page: page + 1 })}">Next ›</a>` : ""}
+		<span class="muted" style="margin-left:auto">Per page:</span>
+		${HEALTH_PAGE_SIZES.map((n) => (n === query.per ? `<strong>${n}</strong>` : `<a href="${link({ per: n, page: 1 })}">${n}</a>`)).join(" ")}
+	</div>`;
+
 	const tabs = `
 <div class="seg">
 	<a href="${qp("all")}"  class="${view === "all" ? "active" : ""}">All</a>
 	<a href="${qp("fail")}" class="${view === "fail" ? "active" : ""}">Failures</a>
 	<a href="${qp("ok")}"   class="${view === "ok" ? "active" : ""}">Successes</a>
+	<a href="${qp("quarantined")}" class="${view === "quarantined" ? "active" : ""}">Quarantined (${data.quarantined.length})</a>
 </div>
 `;
 
+	// Feed items that caused the last run (feed detector)
+	const newItems = data.newItems.length ? `<div class="small muted">New items:</div>${data.newItems.map((u) => `<div class="small mono">${httpUrl(u) ? `<a href="${escapeHtml(u)}">${escapeHtml(u)}</a>` : escapeHtml(u)}</div>`).join("")}` : "";
+
+	const notifyRows = data.notifications
+		.map((n) => {
+			const result = n.ok ? `<span class="ok">${n.status}</span>` : `<span class="fail">${n.status || "—"}</span> <span class="small muted">${escapeHtml(n.error ?? "")}</span>`;
+			return `<tr><td class="small">${fmtTime(n.at)}</td><td class="mono small">${escapeHtml(n.kind)}</td><td>${escapeHtml(n.title)}</td><td class="mono small">${escapeHtml(`${n.format} → ${n.target}`)}</td><td>${result}</td></tr>`;
+		})
+		.join("");
+
+	const requestRows = data.requests
+		.map((r) => {
+			const flags = Object.entries(r.flags)
+				.map(([k, v]) => `${k}=${v}`)
+				.join("&");
+			const outcome = r.outcome === "done" || r.outcome === "ok" ? "ok" : r.outcome === "skipped" ? "muted" : "fail";
+			return `<tr><td class="small">${fmtTime(r.time)}</td><td class="mono small">${escapeHtml(r.keyId ?? "—")}</td><td class="mono small">${escapeHtml(`${r.method} ${r.path}${flags ? `?${flags}` : ""}`)}</td><td class="small">${escapeHtml(r.country ?? "—")}</td><td><span class="${outcome}">${r.outcome}</span> <span class="small muted">${r.status}</span></td></tr>`;
+		})
+		.join("");
+
+	const { pause, queued } = data.policy;
+	const policyState = pause ? `<span class="fail">paused</span>` : data.policy.quietNow ? `<span class="muted">quiet hours</span>` : `<span class="ok">active</span>`;
+	const policyCard = `<div class="v">${policyState}</div>
+		${pause ? `<div class="small muted">${escapeHtml(pause.reason || "no reason given")} • until ${pause.until ? `${new Date(pause.until).toISOString()} (in ${fmtRelative(pause.until - Date.now())})` : "resumed"}</div>` : ""}
+		<div class="small muted">cooldown ${data.policy.cooldowns.cron}s cron • ${data.policy.cooldowns.manual}s manual${data.policy.quietHours.length ? ` • quiet ${escapeHtml(data.policy.quietHours.join(", "))} (${escapeHtml(data.policy.timezone)})` : ""}</div>
+		${queued ? `<div class="small">Queued: ${queued.trigger}${queued.count > 1 ? ` ×${queued.count}` : ""} since ${fmtTime(queued.queuedAt)} <span class="muted">(${escapeHtml(queued.reason)})</span></div>` : data.policy.coalesce ? `<div class="small muted">Nothing queued</div>` : ""}`;
+
+	// Config problems found by validateConfig, above everything else; anonymous readers only get the overall status
+	const configCard = data.config.length
+		? `<div class="card" style="margin-bottom:16px">
+		<div class="k">Configuration</div>
+		${data.config.map((c) => `<div class="small">${c.status === "fail" ? failBadge : badge("WARN", "#f59e0b")} <span class="mono">${escapeHtml(c.id)}</span> <span class="muted">${escapeHtml(c.message)}</span></div>`).join("")}
+		<div class="small muted">Full report with endpoint sources and a detector probe: <span class="mono">GET /diagnostics</span> (master secret)</div>
+	</div>`
+		: data.configStatus !== "pass"
+			? `<div class="card" style="margin-bottom:16px">
+		<div class="k">Configuration</div>
+		<div class="small">${data.configStatus === "fail" ? failBadge : badge("WARN", "#f59e0b")} <span class="muted">Details are shown to callers with the master secret or a read-health key.</span></div>
+	</div>`
+			: "";
+
+	const job = data.job;
+	const jobCard = job
+		? `<div class="v">${job.finishedAt ? "finished" : "in progress"} <span class="muted small">(${job.trigger})</span></div>
+		<div class="small muted">${Math.min(job.cursor, job.total)} / ${job.total} endpoints in ${job.batches.length} batch(es)</div>
+		<div class="small mono muted">${escapeHtml(job.id)}${job.deployId ? ` • ${escapeHtml(job.deployId)}` : ""}</div>`
+		: `<div class="v">—</div>`;
+
 	return `<!doctype html>
 <html lang="en">
 <head>
@@ -592,41 +5186,13 @@ ${metaRefresh}
 <meta name="viewport" content="width=device-width, initial-scale=1">
 <title>XML-RPC Pinger • Health</title>
 <style>
-	:root { color-scheme: light dark; --table-h: 520px; }
-	body{font:14px/1.45 system-ui, -apple-system, Segoe UI, Roboto, Arial, sans-serif; margin:24px;}
-	.wrap{max-width:1000px;margin:auto;}
-	h1{font-size:20px;margin:0 0 16px;}
-	.grid{display:grid;grid-template-columns:repeat(auto-fit,minmax(260px,1fr));gap:16px;margin-bottom:16px;}
-	.card{border:1px solid color-mix(in oklab, CanvasText 12%, transparent); border-radius:12px; padding:14px; background:color-mix(in oklab, Canvas 96%, transparent);}
-	.k{color:color-mix(in oklab, CanvasText 40%, transparent)}
-	.v{font-weight:600}
-	.mono{font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace}
-	.muted{color:color-mix(in oklab, CanvasText 55%, transparent)}
-	table{width:100%; border-collapse:collapse; font-size:13px}
-	th,td{padding:8px 10px; border-top:1px solid color-mix(in oklab, CanvasText 12%, transparent); vertical-align:top}
-	th{text-align:left; font-weight:700}
-	.badge{display:inline-block; padding:2px 8px; border-radius:999px; background:color-mix(in oklab, var(--c) 20%, transparent); color:var(--c); border:1px solid var(--c); font-size:12px}
-	.badge.link{text-decoration:none}
-	.row{display:flex; gap:12px; align-items:baseline; flex-wrap:wrap}
-	.pill{padding:2px 8px; border-radius:999px; border:1px solid color-mix(in oklab, CanvasText 18%, transparent)}
-	.small{font-size:12px}
-	a{color:inherit}
-
-	/* Segmented control */
-	.seg{display:flex; gap:8px; margin-left:auto}
-	.seg a{padding:4px 10px; border-radius:999px; border:1px solid color-mix(in oklab, CanvasText 22%, transparent); text-decoration:none}
-	.seg a.active{background:color-mix(in oklab, CanvasText 15%, transparent)}
-
-	/* Scrollable table area */
-	.tablecard{border:1px solid color-mix(in oklab, CanvasText 12%, transparent); border-radius:12px; background:color-mix(in oklab, Canvas 96%, transparent);}
-	.tablehdr{display:flex; align-items:center; justify-content:space-between; padding:12px 14px; border-bottom:1px solid color-mix(in oklab, CanvasText 12%, transparent);}
-	.tablewrap{height:var(--table-h); overflow:auto;}
-	thead th{position:sticky; top:0; background:color-mix(in oklab, Canvas 96%, transparent);}
-</style>
+${HEALTH_CSS}</style>
 </head>
 <body>
 <div class="wrap">
 	<h1>XML-RPC Pinger • Health ${refreshSeconds ? `<span class="pill small">auto-refresh ${refreshSeconds}s</span>` : ""}</h1>
+	${multiSite ? `<div class="small" style="margin:-8px 0 16px"><a href="/health">← all sites</a> • <span class="mono">${escapeHtml(site.id)}</span></div>` : ""}
+	${configCard}
 
 	<div class="grid">
 		<div class="card">
@@ -649,6 +5215,7 @@ ${metaRefresh}
 		<div class="card">
 		<div class="k">Latest ID</div>
 		<div class="mono">${escapeHtml(String(data.latestId ?? "—"))}</div>
+		${newItems}
 		</div>
 
 		<div class="card">
@@ -660,6 +5227,22 @@ ${metaRefresh}
 		<div class="small muted">at ${fmtTime(data.lastResultAt)}</div>
 		</div>
 
+		<div class="card">
+		<div class="k">Ping job</div>
+		${jobCard}
+		</div>
+
+		<div class="card">
+		<div class="k">Policy</div>
+		${policyCard}
+		</div>
+
+		<div class="card">
+		<div class="k">Pingbacks / Webmentions</div>
+		<div class="v">${data.mentions.sent} sent <span class="muted small">• ${data.mentions.failed} failed • ${data.mentions.noEndpoint} without endpoint</span></div>
+		<div class="small muted">${data.mentions.queued} queued</div>
+		</div>
+
 		<div class="card">
 		<div class="k">Last manual request</div>
 		<div class="small muted">at ${fmtTime(data.lastRequestAt)}</div>
@@ -668,25 +5251,233 @@ ${metaRefresh}
 
 	<div class="tablecard">
 		<div class="tablehdr">
-		<div class="row"><strong>Results</strong><span class="muted small">(showing ${rows.length} of ${data.summary.length})</span></div>
+		<div class="row"><strong>Results</strong><span class="muted small">(showing ${rows.length} of ${matching.length}${matching.length === (view === "quarantined" ? data.quarantined.length : data.summary.length) ? "" : `, filtered from ${view === "quarantined" ? data.quarantined.length : data.summary.length}`})</span></div>
 		${tabs}
 		</div>
+		${searchForm}
+		<div class="tablewrap">
+		<table>
+			<thead><tr>${th("Endpoint", "url")}<th>Result</th>${th("HTTP", "status")}${th("Latency", "latency")}${th("Error", "error")}</tr></thead>
+			<tbody>${recentRows || `<tr><td colspan="5" class="muted">No data.</td></tr>`}</tbody>
+		</table>
+		</div>
+		${pager}
+	</div>
+
+	<div class="tablecard" style="margin-top:16px">
+		<div class="tablehdr">
+		<div class="row"><strong>Notifications</strong><span class="muted small">(last ${data.notifications.length})</span></div>
+		</div>
+		<div class="tablewrap">
+		<table>
+			<thead><tr><th>Time</th><th>Event</th><th>Title</th><th>Target</th><th>Result</th></tr></thead>
+			<tbody>${notifyRows || `<tr><td colspan="5" class="muted">None sent.</td></tr>`}</tbody>
+		</table>
+		</div>
+	</div>
+
+	<div class="tablecard" style="margin-top:16px">
+		<div class="tablehdr">
+		<div class="row"><strong>Requests</strong><span class="muted small">(last ${data.requests.length}; full log with IPs at <span class="mono">/audit</span>)</span></div>
+		</div>
+		<div class="tablewrap">
+		<table>
+			<thead><tr><th>Time</th><th>Caller</th><th>Call</th><th>Country</th><th>Outcome</th></tr></thead>
+			<tbody>${requestRows || `<tr><td colspan="5" class="muted">${withRequests ? "None logged." : "Shown to callers with the master secret or a read-health key."}</td></tr>`}</tbody>
+		</table>
+		</div>
+	</div>
+
+	<div class="small muted" style="margin-top:10px">
+		Tip: add <span class="mono">?refresh=60</span> to auto-refresh every 60s, <span class="mono">?view=fail</span> to show failures, or <span class="mono">?format=json</span> for JSON. Click an endpoint for its recent attempts.
+	</div>
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * Render one card per site, each linking to its own health page
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig[]} sites The site registry
+ * @param {number} refreshSeconds The number of seconds to refresh the page
+ * @returns {Promise<string>} The rendered HTML
+ */
+async function renderSitesOverviewHtml(env: RuntimeEnv, sites: SiteConfig[], refreshSeconds = 0): Promise<string> {
+	const all = await Promise.all(sites.map((s) => readHealth(env, s)));
+	const metaRefresh = refreshSeconds > 0 ? `<meta http-equiv="refresh" content="${refreshSeconds}">` : "";
+
+	const cards = all
+		.map((data, i) => {
+			const site = sites[i];
+			const job = data.job && !data.job.finishedAt ? `<div class="small muted">job: ${Math.min(data.job.cursor, data.job.total)} / ${data.job.total}</div>` : "";
+			return `
+		<a class="card" style="text-decoration:none" href="/health?site=${encodeURIComponent(site.id)}">
+		<div class="row"><span class="v">${escapeHtml(site.name)}</span><span class="pill small mono">${escapeHtml(site.id)}</span></div>
+		<div class="small mono muted">${escapeHtml(site.url)}</div>
+		<div class="small">${data.successes} OK • ${data.failures} FAIL • ${data.endpointsCount} endpoints</div>
+		<div class="small muted">Last ping: ${fmtTime(data.lastPingAt)} • next in ${data.nextAllowedInMs ? Math.ceil(data.nextAllowedInMs / 1000) + "s" : "now"}</div>
+		${job}
+		</a>`;
+		})
+		.join("");
+
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+${metaRefresh}
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>XML-RPC Pinger • Sites</title>
+<style>
+${HEALTH_CSS}</style>
+</head>
+<body>
+<div class="wrap">
+	<h1>XML-RPC Pinger • ${sites.length} sites ${refreshSeconds ? `<span class="pill small">auto-refresh ${refreshSeconds}s</span>` : ""}</h1>
+	<div class="grid">${cards}
+	</div>
+	<div class="small muted">Tip: add <span class="mono">?format=json</span> for JSON of every site.</div>
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * Collect one endpoint's rows from the site's history key (dry runs included), with its rolling stats,
+ * endpoint list entry and latest redirect; the URL is matched by endpointKey, so any spelling of it works
+ * @param {RuntimeEnv} env The runtime environment
+ * @param {SiteConfig} site The site whose run history to read
+ * @param {string} url The endpoint URL
+ * @returns {Promise<EndpointHistory>} The history, newest attempt first
+ */
+async function readEndpointHistory(env: RuntimeEnv, site: SiteConfig, url: string): Promise<EndpointHistory> {
+	const [history, stats, records, redirects] = await Promise.all([env.XMLRPC_PING_KV.get(siteKeys(site).history, "json") as Promise<EndpointHistoryKV | null>, readStats(env), readEndpointRecords(env), env.XMLRPC_PING_KV.get(REDIRECTS_KEY, "json") as Promise<Record<string, RedirectInfo> | null>]);
+	const key = endpointKey(url);
+	const statsUrl = Object.keys(stats).find((u) => endpointKey(u) === key);
+	const redirectUrl = Object.keys(redirects ?? {}).find((u) => endpointKey(u) === key);
+	return {
+		url,
+		siteId: site.id,
+		record: records.find((e) => endpointKey(e.url) === key) ?? null,
+		reliability: statsUrl ? toReliability(statsUrl, stats[statsUrl]) : null,
+		redirect: redirectUrl ? (redirects?.[redirectUrl] ?? null) : null,
+		attempts: history?.[key] ?? [],
+	};
+}
+
+/**
+ * Latency per attempt as an inline SVG line chart, oldest first; dots are green for accepted pings and red for
+ * failures, with the time, HTTP status and latency as a tooltip
+ * @param {EndpointAttempt[]} attempts The attempts, newest first
+ * @returns {string} The SVG markup (or a note when there are no samples)
+ */
+function latencySvg(attempts: EndpointAttempt[]): string {
+	const points = attempts.filter((a) => typeof a.result.ms === "number").reverse();
+	if (!points.length) return `<div class="small muted">No latency samples yet.</div>`;
+	const [w, h, pad] = [640, 180, 30];
+	const max = Math.max(1, ...points.map((p) => p.result.ms ?? 0));
+	const x = (i: number): number => (points.length === 1 ? w / 2 : pad + (i * (w - 2 * pad)) / (points.length - 1));
+	const y = (ms: number): number => h - pad - (ms / max) * (h - 2 * pad);
+	const line = points.map((p, i) => `${x(i).toFixed(1)},${y(p.result.ms ?? 0).toFixed(1)}`).join(" ");
+	const dots = points.map((p, i) => `<circle cx="${x(i).toFixed(1)}" cy="${y(p.result.ms ?? 0).toFixed(1)}" r="4" fill="${p.result.ok ? "#22c55e" : "#ef4444"}"><title>${escapeHtml(`${new Date(p.at).toISOString()} • HTTP ${p.result.status} • ${p.result.ms} ms`)}</title></circle>`).join("");
+	const label = (lx: number, ly: number, text: string, anchor = "start"): string => `<text x="${lx}" y="${ly}" font-size="11" fill="currentColor" opacity=".6" text-anchor="${anchor}">${escapeHtml(text)}</text>`;
+	return `<svg viewBox="0 0 ${w} ${h}" width="100%" role="img" aria-label="Latency per attempt, oldest first">
+		<line x1="${pad}" y1="${h - pad}" x2="${w - pad}" y2="${h - pad}" stroke="currentColor" stroke-opacity=".2"/>
+		<line x1="${pad}" y1="${pad}" x2="${w - pad}" y2="${pad}" stroke="currentColor" stroke-opacity=".1" stroke-dasharray="4 4"/>
+		${label(pad, pad - 8, `${max} ms`)}${label(pad, h - 8, new Date(points[0].at).toISOString().slice(0, 16).replace("T", " "))}${label(w - pad, h - 8, new Date(points[points.length - 1].at).toISOString().slice(0, 16).replace("T", " "), "end")}
+		<polyline points="${line}" fill="none" stroke="#6366f1" stroke-width="2"/>
+		${dots}
+	</svg>`;
+}
+
+/**
+ * Render /health/endpoint: stats, latency trend and the recent attempts of one endpoint
+ * @param {EndpointHistory} history The endpoint's history
+ * @param {boolean} multiSite Whether other sites exist (keeps `site=` on the back link)
+ * @returns {string} The rendered HTML
+ */
+function renderEndpointHtml(history: EndpointHistory, multiSite: boolean): string {
+	const { reliability: rel, record, redirect } = history;
+	const back = multiSite ? `/health?site=${encodeURIComponent(history.siteId)}` : "/health";
+	const rows = history.attempts
+		.map(({ runId, at, trigger, result: r }) => {
+			const snippet = r.bodySnippet ? `<details><summary class="small">body</summary><pre class="mono small">${escapeHtml(r.bodySnippet)}</pre></details>` : "";
+			return `<tr><td class="small">${fmtTime(at)}</td><td class="small"><a class="mono" href="/runs/${encodeURIComponent(runId)}">${escapeHtml(trigger)}</a></td><td>${r.ok ? `<span class="ok">OK</span>` : `<span class="fail">FAIL</span>`}</td><td class="mono">${r.status}</td><td class="mono">${typeof r.ms === "number" ? `${r.ms} ms` : "—"}</td><td class="mono small">${r.attempts ?? 1}</td><td class="muted">${escapeHtml(describeFailure(r))}${snippet}</td></tr>`;
+		})
+		.join("");
+
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>XML-RPC Pinger • Endpoint</title>
+<style>
+${HEALTH_CSS}</style>
+</head>
+<body>
+<div class="wrap">
+	<h1>XML-RPC Pinger • Endpoint</h1>
+	<div class="small" style="margin:-8px 0 16px"><a href="${back}">← health</a> • <span class="mono">${escapeHtml(history.url)}</span></div>
+
+	<div class="grid">
+		<div class="card">
+		<div class="k">Endpoint</div>
+		<div class="v">${escapeHtml(record?.label ?? history.url)}</div>
+		${record?.notes ? `<div class="small muted">${escapeHtml(record.notes)}</div>` : ""}
+		<div class="small muted">${record ? (record.disabled ? "disabled" : "enabled") : "not in the endpoint list"}${redirect ? ` • redirects to <span class="mono">${escapeHtml(redirect.to)}</span>` : ""}</div>
+		</div>
+
+		<div class="card">
+		<div class="k">Reliability</div>
+		${rel ? `<div class="v">${Math.round(rel.successRate * 100)}% <span class="muted small">of ${rel.runs} runs</span></div><div class="small muted">${rel.consecutiveFailures} failed in a row • last success ${fmtTime(rel.lastSuccessAt)}</div>${rel.quarantinedAt ? `<div class="small fail">quarantined ${fmtTime(rel.quarantinedAt)}</div>` : ""}` : `<div class="v">—</div><div class="small muted">No real runs yet</div>`}
+		</div>
+
+		<div class="card">
+		<div class="k">Latency</div>
+		<div class="v">${rel?.p50 ?? "—"} ms <span class="muted small">p50 • p95 ${rel?.p95 ?? "—"} ms</span></div>
+		<div class="small muted">last ${history.attempts.length} attempts below</div>
+		</div>
+	</div>
+
+	<div class="card" style="margin-bottom:16px">
+		<div class="k">Latency trend</div>
+		${latencySvg(history.attempts)}
+	</div>
+
+	<div class="tablecard">
+		<div class="tablehdr">
+		<div class="row"><strong>Attempts</strong><span class="muted small">(from the latest ${ENDPOINT_HISTORY_RUNS} recorded runs; body snippets come from verbose runs)</span></div>
+		</div>
 		<div class="tablewrap">
 		<table>
-			<thead><tr><th>Endpoint</th><th>Status</th><th>HTTP</th><th>Error</th></tr></thead>
-			<tbody>${recentRows || `<tr><td colspan="4" class="muted">No data.</td></tr>`}</tbody>
+			<thead><tr><th>Time</th><th>Run</th><th>Result</th><th>HTTP</th><th>Latency</th><th>Tries</th><th>Error</th></tr></thead>
+			<tbody>${rows || `<tr><td colspan="7" class="muted">No recorded attempts.</td></tr>`}</tbody>
 		</table>
 		</div>
 	</div>
 
 	<div class="small muted" style="margin-top:10px">
-		Tip: add <span class="mono">?refresh=60</span> to auto-refresh every 60s, <span class="mono">?view=fail</span> to show failures, or <span class="mono">?format=json</span> for JSON.
+		Tip: add <span class="mono">&amp;format=json</span> for JSON.
 	</div>
 </div>
 </body>
 </html>`;
 }
 
+/**
+ * Short, human-readable reason for a result row (transport error, XML-RPC fault or service message)
+ * @param {PingResult} r The ping result
+ * @returns {string} The reason, or an empty string
+ */
+function describeFailure(r: PingResult): string {
+	if (r.error) return r.error;
+	if (r.faultString || r.faultCode !== undefined) return `fault ${r.faultCode ?? "?"}: ${r.faultString ?? ""}`.trim();
+	if (!r.ok && r.serviceMessage) return `flerror: ${r.serviceMessage}`;
+	return "";
+}
+
 /**
  * Escape HTML special characters in a string.
  * @param {string} s The input string
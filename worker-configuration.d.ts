@@ -1,5 +1,5 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: 6250c613cc76958f741d903b306efa2a)
+// Generated by Wrangler by running `wrangler types` (hash: a2745db09feec2d267de270f7ad96b50)
 // Runtime types generated with workerd@1.20250829.0 2025-08-26 
 declare namespace Cloudflare {
 	interface Env {
@@ -9,6 +9,7 @@ declare namespace Cloudflare {
 		CLOUDFLARE_ACCOUNT_ID: "aebd6727945799943cfc166658576676";
 		SUBREQ_BUDGET: "45";
 		PING_CONCURRENCY: "6";
+		PING_COORDINATOR: DurableObjectNamespace<import("./src/index").PingCoordinator>;
 		XMLRPC_PING_SECRET: string;
 		SITE_NAME: string;
 		SITE_URL: string;